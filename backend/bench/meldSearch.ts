@@ -0,0 +1,86 @@
+/*
+Benchmark: open-pile "can the top card be melded?" check.
+
+Compares the previous brute-force search (every 3..7-card subset of hand+top,
+each classified) with MeldIndex.canJoin, on random hands of the sizes seen in
+play: 13-14 cards normally, 26-27 right after a Show. Also verifies both give
+the same answer on every sample.
+
+Run: npm run bench
+*/
+
+import { MeldIndex, MeldType, RULE_PRESETS, classifyMeld, isJoker, type Card, type HouseRules } from '../src/engine/BucaroGame';
+import { Rng } from '../src/engine/rng';
+
+const SAMPLES = Number(process.env.BENCH_SAMPLES ?? 40);
+
+function deck(rng: Rng): Card[] {
+  const cards: Card[] = [];
+  for (let d = 0; d < 2; d++) {
+    for (const suit of ['S', 'H', 'D', 'C'] as const) {
+      for (let rank = 1; rank <= 13; rank++) cards.push({ suit, rank, id: rng.id('c') });
+    }
+    cards.push({ suit: 'JOKER', rank: 0, id: rng.id('j') }, { suit: 'JOKER', rank: 0, id: rng.id('j') });
+  }
+  return rng.shuffle(cards);
+}
+
+// Previous implementation, kept here as the baseline
+function bruteForce(top: Card, hand: Card[], rules: HouseRules, teamHasPure: boolean): boolean {
+  const pool = [top, ...hand];
+  let found = false;
+  const choose = (start: number, k: number, chosen: Card[]) => {
+    if (found) return;
+    if (k === 0) {
+      if (!chosen.includes(top)) return;
+      const t = classifyMeld(chosen, rules);
+      if (!t) return;
+      if (t !== MeldType.ThreeJokers && isJoker(top) && t !== MeldType.SequencePure) return;
+      if (!teamHasPure && t !== MeldType.SequencePure) return;
+      found = true;
+      return;
+    }
+    for (let i = start; i < pool.length; i++) {
+      chosen.push(pool[i]);
+      choose(i + 1, k - 1, chosen);
+      chosen.pop();
+    }
+  };
+  for (let k = 3; k <= 7 && !found; k++) choose(0, k, []);
+  return found;
+}
+
+function indexed(top: Card, hand: Card[], rules: HouseRules, teamHasPure: boolean): boolean {
+  return new MeldIndex(hand, rules).canJoin(top, t => {
+    if (t !== MeldType.ThreeJokers && isJoker(top) && t !== MeldType.SequencePure) return false;
+    return teamHasPure || t === MeldType.SequencePure;
+  });
+}
+
+function time(fn: () => void): number {
+  const t0 = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - t0) / 1e6;
+}
+
+const rng = new Rng('meld-bench');
+for (const preset of ['classic', 'relaxed'] as const) {
+  const rules = RULE_PRESETS[preset];
+  for (const handSize of [14, 20, 27]) {
+    const cases = Array.from({ length: SAMPLES }, () => {
+      const d = deck(rng);
+      return { top: d[0], hand: d.slice(1, 1 + handSize), teamHasPure: rng.next() < 0.5 };
+    });
+    let mismatches = 0;
+    const a: boolean[] = [];
+    const b: boolean[] = [];
+    const slow = time(() => { for (const c of cases) a.push(bruteForce(c.top, c.hand, rules, c.teamHasPure)); });
+    const fast = time(() => { for (const c of cases) b.push(indexed(c.top, c.hand, rules, c.teamHasPure)); });
+    a.forEach((v, i) => { if (v !== b[i]) mismatches++; });
+    console.log(
+      `${preset.padEnd(8)} hand=${String(handSize).padStart(2)}  brute ${(slow / SAMPLES).toFixed(3)} ms/op` +
+      `  indexed ${(fast / SAMPLES).toFixed(4)} ms/op  speedup x${(slow / Math.max(fast, 1e-6)).toFixed(0)}` +
+      `  mismatches ${mismatches}`,
+    );
+  }
+}
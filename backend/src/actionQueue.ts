@@ -0,0 +1,36 @@
+/*
+Action queue – runs a room's actions one at a time, and each keyed action at most once.
+
+Socket handlers, bot turns and turn timeouts all change the same game. Going
+through one queue per room keeps them in arrival order even when a step has to
+wait (e.g. on a store), so no action ever runs against a half-applied one.
+
+- run(task):       queue a task; resolves with its result once it has run.
+- once(key, task): like run(), but a key seen before is not run again; the
+                   caller gets the first run's promise (settled or still pending)
+                   and duplicate: true. The last `historySize` keys are kept.
+
+A failing task rejects only its own promise; the queue moves on to the next one.
+*/
+
+export class ActionQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private readonly recent = new Map<string, Promise<unknown>>();
+
+  constructor(readonly historySize = 256) {}
+
+  run<T>(task: () => T | Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  once<T>(key: string, task: () => T | Promise<T>): { result: Promise<T>; duplicate: boolean } {
+    const seen = this.recent.get(key);
+    if (seen) return { result: seen as Promise<T>, duplicate: true };
+    const result = this.run(task);
+    this.recent.set(key, result);
+    if (this.recent.size > this.historySize) this.recent.delete(this.recent.keys().next().value!);
+    return { result, duplicate: false };
+  }
+}
@@ -0,0 +1,253 @@
+/*
+Bucaro Bots – computer players that fill empty seats.
+
+A bot drives its seat only through the public BucaroGame API (the same calls a
+human's socket events make), so it can never do anything a human could not.
+It reads getPlayerState()/getLegalActions() and plays one whole turn per
+playTurn() call: draw → optional Show → place/add → discard. A card taken from
+the open pile is melded straight away (or returned if that fails).
+
+Difficulty
+----------
+- easy:   always draws closed, places the first acceptable meld it sees and
+          discards a random legal card.
+- strong: takes the open top when it is placeable, tries to Show, places every
+          acceptable meld (largest first, pure sequence first when the team
+          still needs one), extends team melds, and discards the card that is
+          least useful to its hand (highest value among loose cards).
+
+playTimeoutMove() is the fixed default move the server makes for a player whose
+turn clock runs out: draw closed, then discard the drawn card (or the
+highest-value card).
+
+Randomness comes from a PRNG seeded with the game seed and the bot's id, so a
+game with bots is as reproducible as one without.
+*/
+
+import { BucaroGame, MeldType, cardValue, isJoker, type Card, type HouseRules, type MeldOption } from '../engine/BucaroGame';
+import { Rng } from '../engine/rng';
+
+export type BotDifficulty = 'easy' | 'strong';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'strong'];
+
+export class BucaroBot {
+  private rng: Rng;
+
+  constructor(readonly playerId: string, readonly difficulty: BotDifficulty, seed: string) {
+    this.rng = new Rng(`${seed}:${playerId}`);
+  }
+
+  /** Play this bot's whole turn. Throws if it is not the bot's turn. */
+  playTurn(game: BucaroGame) {
+    this.draw(game);
+    if (this.difficulty === 'strong') {
+      this.tryShow(game);
+      if (game.getPublicState().status !== 'ACTIVE') return;
+    }
+    this.place(game);
+    this.discard(game);
+  }
+
+  private draw(game: BucaroGame) {
+    const la = game.getLegalActions(this.playerId);
+    if (this.difficulty === 'strong' && la.drawOpen.allowed) {
+      game.drawFromOpen(this.playerId);
+      if (this.meldPickup(game)) return;
+      // Could not meld the pickup after all: put it back and draw closed instead
+      game.returnOpenCard(this.playerId);
+      if (!game.getLegalActions(this.playerId).drawClosed.allowed) throw new Error('Bot cannot draw');
+      game.drawFromClosed(this.playerId);
+      return;
+    }
+    if (la.drawClosed.allowed) {
+      game.drawFromClosed(this.playerId);
+      return;
+    }
+    if (la.drawOpen.allowed) {
+      game.drawFromOpen(this.playerId);
+      return;
+    }
+    throw new Error(la.drawClosed.reason ?? 'Bot cannot draw');
+  }
+
+  /** Meld the card just taken from the open pile; false if no placement worked. */
+  private meldPickup(game: BucaroGame): boolean {
+    const la = game.getLegalActions(this.playerId);
+    const cardId = la.mustMeld;
+    if (!cardId) return true;
+    const handSize = this.hand(game).length;
+    const options = bySizeDesc(la.melds.filter(m =>
+      m.acceptedAlone && m.cardIds.includes(cardId) && handSize - m.cardIds.length >= 1));
+    const moves = [
+      ...options.map(m => (g: BucaroGame) => g.placeMelds(this.playerId, [{ cardIds: m.cardIds }])),
+      ...(la.additions.find(a => a.cardId === cardId)?.meldIds ?? []).map(meldId =>
+        (g: BucaroGame) => g.addCardsToMeld(this.playerId, [{ meldId, cardIds: [cardId] }])),
+    ];
+    const move = moves.find(m => this.keepsDiscard(game, m));
+    if (!move) return false;
+    move(game);
+    return true;
+  }
+
+  private tryShow(game: BucaroGame) {
+    const { rules } = game.getPublicState();
+    const hand = this.hand(game);
+    const options = game.getLegalActions(this.playerId).melds;
+    const showable = options.filter(m =>
+      (m.type === MeldType.SequencePure || m.type === MeldType.SetPure) && m.cardIds.length >= rules.showLength);
+
+    for (const first of showable) {
+      // Greedily add disjoint melds; a Show must leave exactly one card to discard
+      const used = new Set(first.cardIds);
+      const melds = [first];
+      for (const m of bySizeDesc(options)) {
+        if (m === first || m.cardIds.some(id => used.has(id))) continue;
+        if (hand.length - used.size - m.cardIds.length < 1) continue;
+        melds.push(m);
+        m.cardIds.forEach(id => used.add(id));
+      }
+      if (hand.length - used.size !== 1) continue;
+      try {
+        game.show(this.playerId, { melds: melds.map(m => ({ cardIds: m.cardIds })) });
+        return;
+      } catch {
+        // try the next candidate
+      }
+    }
+  }
+
+  private place(game: BucaroGame) {
+    for (;;) {
+      const la = game.getLegalActions(this.playerId);
+      if (!la.place.allowed) return;
+      const handSize = this.hand(game).length;
+      const fits = la.melds.filter(m => m.acceptedAlone && handSize - m.cardIds.length >= 1);
+      const ranked = this.difficulty === 'easy'
+        ? fits
+        : bySizeDesc(fits).sort((a, b) => pureRank(a) - pureRank(b));
+      const placeIt = (m: MeldOption) => (g: BucaroGame) => g.placeMelds(this.playerId, [{ cardIds: m.cardIds }]);
+      const pick = ranked.find(m => this.keepsDiscard(game, placeIt(m)));
+      if (!pick) break;
+      try {
+        placeIt(pick)(game);
+      } catch {
+        break;
+      }
+      if (this.difficulty === 'easy') return;
+    }
+
+    if (this.difficulty === 'easy') return;
+    for (;;) {
+      const la = game.getLegalActions(this.playerId);
+      if (this.hand(game).length <= 1) return;
+      const moves = la.additions.flatMap(a => a.meldIds.map(meldId =>
+        (g: BucaroGame) => g.addCardsToMeld(this.playerId, [{ meldId, cardIds: [a.cardId] }])));
+      const add = moves.find(move => this.keepsDiscard(game, move));
+      if (!add) return;
+      try {
+        add(game);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  /**
+   * True if `move` (a placement) leaves the hand a legal discard. It is tried
+   * on a copy of the game, so a placement that would strand the bot (e.g. only
+   * a joker left with a joker on the open pile) is never made.
+   */
+  private keepsDiscard(game: BucaroGame, move: (g: BucaroGame) => void): boolean {
+    const trial = BucaroGame.fromSnapshot(game.toSnapshot());
+    try {
+      move(trial);
+    } catch {
+      return false;
+    }
+    const la = trial.getLegalActions(this.playerId);
+    return this.hand(trial).some(c => la.discardable.includes(c.id));
+  }
+
+  private discard(game: BucaroGame) {
+    const la = game.getLegalActions(this.playerId);
+    if (!la.discard.allowed) return;
+    const hand = this.hand(game);
+    const allowed = hand.filter(c => la.discardable.includes(c.id));
+    if (!allowed.length) throw new Error('Bot has no legal discard');
+
+    let card: Card;
+    if (this.difficulty === 'easy') {
+      card = allowed[this.rng.int(allowed.length)];
+    } else {
+      const { rules } = game.getPublicState();
+      card = allowed
+        .map(c => ({ c, keep: usefulness(c, hand, rules) }))
+        .sort((a, b) => a.keep - b.keep || cardValue(b.c, rules) - cardValue(a.c, rules))[0].c;
+    }
+    game.discard(this.playerId, card);
+  }
+
+  private hand(game: BucaroGame): Card[] {
+    return game.getPlayerState(this.playerId).yourHand;
+  }
+}
+
+/**
+ * Default move for a timed-out turn: draw from the closed pile (if not drawn
+ * yet), then discard the drawn card, or the highest-value legal card when the
+ * drawn one cannot go. A pending open-pile pickup is handed back first, along
+ * with anything staged this turn.
+ */
+export function playTimeoutMove(game: BucaroGame, playerId: string) {
+  let la = game.getLegalActions(playerId);
+  if (la.mustMeld) {
+    while (la.undo.allowed) {
+      game.undoPlacement(playerId);
+      la = game.getLegalActions(playerId);
+    }
+    game.returnOpenCard(playerId);
+    la = game.getLegalActions(playerId);
+  }
+
+  let drawn: string | null = null;
+  if (la.drawClosed.allowed) {
+    const before = new Set(game.getPlayerState(playerId).yourHand.map(c => c.id));
+    game.drawFromClosed(playerId);
+    drawn = game.getPlayerState(playerId).yourHand.find(c => !before.has(c.id))?.id ?? null;
+    la = game.getLegalActions(playerId);
+  }
+  if (!la.discard.allowed) throw new Error(la.discard.reason ?? 'Cannot discard');
+
+  const { rules } = game.getPublicState();
+  const allowed = game.getPlayerState(playerId).yourHand.filter(c => la.discardable.includes(c.id));
+  if (!allowed.length) throw new Error('No legal discard');
+  const card = allowed.find(c => c.id === drawn)
+    ?? allowed.slice().sort((a, b) => cardValue(b, rules) - cardValue(a, rules))[0];
+  game.discard(playerId, card);
+}
+
+function bySizeDesc(options: MeldOption[]): MeldOption[] {
+  return options.slice().sort((a, b) => b.cardIds.length - a.cardIds.length);
+}
+
+function pureRank(m: MeldOption): number {
+  return m.type === MeldType.SequencePure ? 0 : 1;
+}
+
+/** How much a card helps the rest of the hand: jokers most, then pairs and near-runs. */
+function usefulness(c: Card, hand: Card[], rules: HouseRules): number {
+  if (isJoker(c)) return 100;
+  let score = 0;
+  for (const o of hand) {
+    if (o.id === c.id || isJoker(o)) continue;
+    if (o.rank === c.rank) score += 3;
+    if (o.suit === c.suit) {
+      const d = Math.abs(o.rank - c.rank);
+      const wrap = rules.wraparound || rules.aces !== 'low' ? Math.abs(d - 13) : Infinity;
+      if (d === 1 || wrap === 1) score += 3;
+      else if (d === 2 || wrap === 2) score += 1;
+    }
+  }
+  return score;
+}
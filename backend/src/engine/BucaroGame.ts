@@ -13,13 +13,34 @@ Bucaro card game as specified by Bhavesh. It covers:
 - Show logic (7-card pure sequence or 7 of a kind; impure 7 is invalid)
 - Max 1 joker per meld (except the special "3 jokers together" set)
 - Joker pick restrictions; no discarding a joker onto a joker on open pile
-- End conditions: closed pile exhausted OR two Shows total (can be same team)
-- Scoring
+- End conditions: closed pile exhausted OR two Shows total (can be same team);
+  with HouseRules.onClosedExhausted = 'reshuffle' the open pile (minus its top
+  card) is shuffled into a new closed pile instead (up to rules.maxReshuffles
+  times). PublicState.endReason and FinalScoreSummary.endReason say why the
+  game ended
+- Scoring, with an itemized report (every meld and who placed it, each
+  leftover hand, the exact cards moved by the in-hand transfer)
+- Action journal: every successful mutating call is recorded and can be
+  replayed (fully or up to any step) with BucaroGame.replay
+- Open-pile pickups: a card drawn from the open pile must be melded before the
+  turn can end (discard or Show); until something is placed the player may
+  return it with returnOpenCard and draw again
+- Staged turns: placements (placeMelds / addCardsToMeld / swapJoker) stay
+  provisional until the turn's discard or Show commits them; until then they
+  can be undone (undoPlacement) or re-applied in another order
+  (reorderPlacements). Everyone sees the provisional melds via PublicState.staging
+- Joker assignments: every meld records which rank (and suit, for sequences)
+  each joker stands for; extensions must respect it, and swapJoker lets a
+  player trade the natural card for the board joker
+- Versioned snapshots: toSnapshot/fromSnapshot capture every private field
+  (including the PRNG state) so a game survives a server restart
+- Deterministic deals: every shuffle and id comes from a PRNG seeded with
+  GameConfig.rngSeed (a random seed is chosen when none is given)
 
 Assumptions (explicit)
 ----------------------
 1) Card value for Jokers during point tally is treated as 0. (Not specified by
-   rules; we choose 0; adjust in JOKER_CARD_VALUE if different.)
+   rules; we choose 0; change HouseRules.jokerCardValue if different.)
 2) "A joker cannot be placed on top of a joker" is interpreted as: you cannot
    discard a joker if the top of the open pile is also a joker.
 3) Placing cards when a team has no pure sequence: allowed only if the *result*
@@ -29,33 +50,63 @@ Assumptions (explicit)
    NOT a 7-card qualifying Show (obviously) and scores as an impure set (100),
    since it uses jokers and is not a natural set/sequence of rank/suit.
 6) Aces are high for sequencing (A-2-3 is not pure), and sequences do not wrap.
+7) Assumptions 1 and 6, the printed jokers per deck, the Show length, the
+   number of Shows that ends the game, the no-Show penalty and meld points are
+   house rules (see rules.ts) chosen through GameConfig.preset / .rules.
 
 Exported API (high-level)
 -------------------------
 - class BucaroGame
-  - constructor(config?: Partial<GameConfig>)
+  - constructor(config?: GameConfigInput)
+  - seed: string (rngSeed in use; log it to reproduce a deal)
   - addPlayer(id: string, name: string): void
+  - getConfig(): GameConfig
+  - getJournal(): ActionRecord[]
+  - applyAction(action: GameAction): void
+  - toSnapshot(): GameSnapshot
+  - static fromSnapshot(snapshot: GameSnapshot | older version, opts?: { clock?: () => number }): BucaroGame
+  - static replay(config: GameConfigInput, actions: GameAction[], opts?: ReplayOptions): BucaroGame
   - startGame(): void
   - getPublicState(): PublicState
   - getPlayerState(playerId: string): PlayerView
+  - getSpectatorState(opts?: { revealHands?: boolean }): SpectatorView
+  - getLegalActions(playerId: string): LegalActions
   - drawFromClosed(playerId: string): void
   - drawFromOpen(playerId: string): void
+  - returnOpenCard(playerId: string): void
   - placeMelds(playerId: string, melds: MeldPayload[]): void
   - addCardsToMeld(playerId: string, additions: MeldAdditionPayload[]): void
+  - swapJoker(playerId: string, swap: JokerSwapPayload): void
+  - undoPlacement(playerId: string): void
+  - reorderPlacements(playerId: string, order: number[]): void
   - discard(playerId: string, card: Card): void
   - show(playerId: string, payload: ShowPayload): void
   - computeFinalScores(): FinalScoreSummary
+- class MeldIndex (meld finder over a set of cards; used for open-pile checks, hints, bots)
+  - meldsWith(card) / canJoin(card, accept?) / allMelds()
+- classifyMeld(cards, rules), isJoker(card), cardValue(card, rules)
 
 Notes
 -----
 - Phase 1 is engine-only (no sockets/UI).
 - Designed to drop into a Node/Express + Socket.IO server. All rules are pure
   functions where possible; mutating ops throw on invalid actions.
+- Rule violations throw BucaroRuleError subclasses (see errors.ts) with a stable
+  `code` and structured `details` (card ids, meld id, ...).
 */
 
+import { Rng, randomSeed } from './rng';
+import { RULE_PRESETS, resolveHouseRules, type HouseRules, type RulePreset } from './rules';
+import { SNAPSHOT_VERSION, migrateSnapshot, registerSnapshotMigration, type GameSnapshot } from './snapshot';
+import { BucaroRuleError, CardError, MeldError, PileError, SetupError, TurnError, type RuleErrorCode } from './errors';
+
+export * from './errors';
+export { RULE_PRESETS, type AceMode, type ClosedExhaustedMode, type HouseRules, type RulePreset } from './rules';
+export { SNAPSHOT_VERSION, registerSnapshotMigration, type GameSnapshot, type SnapshotMigration } from './snapshot';
+
 //#region Types
 
-type Suit = 'S' | 'H' | 'D' | 'C' | 'JOKER';
+export type Suit = 'S' | 'H' | 'D' | 'C' | 'JOKER';
 
 export interface Card {
   suit: Suit;        // 'S','H','D','C' or 'JOKER'
@@ -71,10 +122,19 @@ export enum MeldType {
   ThreeJokers = 'ThreeJokers',
 }
 
+/** What a joker on the board stands for. */
+export interface JokerAssignment {
+  jokerId: string;
+  rank: number;         // 1..13 (1 = ace at either end)
+  suit: Suit | null;    // sequence suit; null for sets (any suit of that rank)
+}
+
 export interface Meld {
   id: string;
   type: MeldType;
   cards: Card[];        // ordered for sequences; any order for sets
+  jokerAssignments: JokerAssignment[]; // one per joker, except ThreeJokers (none)
+  placedBy: string | null;  // player who put the meld down (null in pre-tracking snapshots)
 }
 
 export interface TeamBoard {
@@ -90,9 +150,30 @@ export interface Player {
 }
 
 export interface GameConfig {
-  rngSeed?: string;
+  rngSeed: string;    // same seed + same actions => identical deal, ids and state
+  preset: RulePreset; // named rule set the rules were derived from
+  rules: HouseRules;  // fully resolved and validated
+  dealerIndex: number; // seat that deals this game (BucaroMatch rotates it)
+}
+
+/** What callers pass in: a preset plus any individual overrides. */
+export interface GameConfigInput {
+  rngSeed?: string;   // random when omitted
+  preset?: RulePreset;
+  rules?: Partial<HouseRules>;
+  dealerIndex?: number; // 0 when omitted
+  clock?: () => number; // journal timestamps; Date.now when omitted (inject one for reproducible journals)
 }
 
+/**
+ * Why a game ended:
+ * - SHOWS:                  rules.showsToEnd Shows were made
+ * - CLOSED_PILE_EXHAUSTED:  the closed pile ran out (onClosedExhausted 'end', or
+ *                           no reshuffles left)
+ * - NO_CARDS_TO_RESHUFFLE:  it ran out under 'reshuffle' with only the open top left
+ */
+export type EndReason = 'SHOWS' | 'CLOSED_PILE_EXHAUSTED' | 'NO_CARDS_TO_RESHUFFLE';
+
 export interface PublicState {
   status: 'LOBBY' | 'ACTIVE' | 'ENDED';
   currentTurn: number;      // index 0..3
@@ -101,7 +182,32 @@ export interface PublicState {
   openCount: number;
   closedCount: number;
   showsDone: number;        // total number of shows across teams
+  reshuffles: number;       // times the open pile was turned into a new closed pile
+  endReason: EndReason | null; // set once status is ENDED
   teamPurePresent: [boolean, boolean];
+  pendingPickup: Card | null; // open-pile card the current player still has to meld
+  staging: StagingInfo | null; // this turn's provisional placements, if any
+  rulePreset: RulePreset;
+  rules: HouseRules;
+  clock?: ClockView;        // filled in by the server; the engine itself keeps no time
+}
+
+/** Turn/match clock of a timed table (see server.ts). All times in ms. */
+export interface ClockView {
+  seat: number;                           // seat whose clock is running
+  turnEndsAt: number;                     // epoch ms when the turn times out
+  turnRemainingMs: number;
+  matchRemainingMs: Array<number | null>; // per seat; null when there is no match clock
+  timeouts: number[];                     // consecutive timeouts per seat
+}
+
+/** Provisional part of a team board: placed this turn, not yet committed by discard/Show. */
+export interface StagingInfo {
+  playerId: string;
+  teamId: number;
+  steps: number;        // staged placement calls, in order (see reorderPlacements)
+  meldIds: string[];    // melds created or extended by them
+  cardIds: string[];    // cards they moved from hand to the board
 }
 
 export interface PlayerView extends PublicState {
@@ -112,14 +218,29 @@ export interface PlayerView extends PublicState {
   teamBoards: [TeamBoard, TeamBoard];
 }
 
+/** What a non-playing observer sees: no hands unless revealHands was asked for. */
+export interface SpectatorView extends PublicState {
+  players: Array<{ id: string; name: string; teamId: number; cardCount: number; hand?: Card[] }>;
+  teamBoards: [TeamBoard, TeamBoard];
+  handsRevealed: boolean;
+}
+
 export interface MeldPayload {
   // A proposed meld using card IDs from the player's hand (and possibly the drawn card this turn).
   cardIds: string[];
+  // Rank the joker should stand for when it could sit at either end of a sequence
+  jokerRank?: number;
 }
 
 export interface MeldAdditionPayload {
   meldId: string;
   cardIds: string[]; // cards from hand to add onto an existing team meld
+  jokerRank?: number; // as in MeldPayload, for a joker added to a sequence
+}
+
+export interface JokerSwapPayload {
+  meldId: string;    // meld on your team board holding the joker
+  cardId: string;    // natural card from hand matching the joker's assignment
 }
 
 export interface ShowPayload {
@@ -129,28 +250,124 @@ export interface ShowPayload {
 
 export interface FinalScoreSummary {
   teamScores: [number, number];
+  endReason: EndReason;
   details: {
     teamId: number;
-    meldPoints: number;   // 200 / 100 per meld as per type
-    cardPoints: number;   // 3-7=5; 8-10,J,Q,K=10; A=15; Jokers=JOKER_CARD_VALUE
-    penalty: number;      // -200 if no 7-card pure sequence/set
+    meldPoints: number;   // pure / impure meld points per rules (200 / 100 classic)
+    cardPoints: number;   // 3-7=5; 8-10,J,Q,K=10; A=15; Jokers=rules.jokerCardValue
+    penalty: number;      // -rules.noShowPenalty if no showLength pure sequence/set
     inHandGainsFromOpp: number; // points gained from opposing hands transfer
     comment: string;
+    melds: MeldScoreLine[];       // this team's board, meld by meld
+    hands: HandScoreLine[];       // this team's players' leftover hands
+    transferIn: CardScore[];      // opposing hand cards credited to this team
   }[];
 }
 
-//#endregion
+export interface CardScore {
+  card: Card;
+  value: number;        // cardValue under the game's rules
+}
 
-//#region Utilities / Constants
+export interface MeldScoreLine {
+  meldId: string;
+  type: MeldType;
+  placedBy: string | null;
+  meldPoints: number;   // pure/impure meld bonus
+  cards: CardScore[];
+  cardPoints: number;   // sum of the card values
+  showQualifying: boolean; // a showLength pure sequence/set (avoids the penalty)
+}
 
-const JOKER_CARD_VALUE = 0; // assumption per notes
+export interface HandScoreLine {
+  playerId: string;
+  cards: CardScore[];
+  value: number;
+  transferredTo: number | null; // team credited with this hand, if it was transferred
+}
 
-function clone<T>(x: T): T { return JSON.parse(JSON.stringify(x)); }
+/** Whether an action is currently allowed, and the engine's reason if not. */
+export interface ActionCheck {
+  allowed: boolean;
+  reason?: string;        // same message the mutating method would throw
+  code?: RuleErrorCode;   // same code the mutating method would throw
+}
+
+export interface MeldOption {
+  cardIds: string[];
+  type: MeldType;
+  acceptedAlone: boolean; // false when the team still needs a pure sequence placed alongside
+}
+
+export interface MeldTargetOption {
+  cardId: string;     // hand card
+  meldIds: string[];  // team melds it can be added to on its own
+}
+
+export interface LegalActions {
+  playerId: string;
+  yourTurn: boolean;
+  drawClosed: ActionCheck;
+  drawOpen: ActionCheck;
+  returnOpen: ActionCheck;        // undo an open-pile pickup (before anything is placed)
+  mustMeld: string | null;        // picked-up card id that must be melded before discard/Show
+  place: ActionCheck;             // placeMelds / addCardsToMeld preconditions
+  melds: MeldOption[];            // candidate groupings from the current hand
+  additions: MeldTargetOption[];  // hand cards that fit existing team melds
+  discard: ActionCheck;
+  discardable: string[];          // hand card ids allowed under the joker-on-joker rule
+  jokerSwaps: JokerSwapPayload[]; // hand cards that can replace a board joker
+  undo: ActionCheck;              // undoPlacement / reorderPlacements
+}
 
-function uid(prefix = 'id'): string {
-  return `${prefix}_${Math.random().toString(36).slice(2, 10)}${Date.now().toString(36)}`;
+/** One mutating engine call, as stored in the journal. */
+export type GameAction =
+  | { type: 'addPlayer'; playerId: string; name: string }
+  | { type: 'startGame' }
+  | { type: 'drawFromClosed'; playerId: string }
+  | { type: 'drawFromOpen'; playerId: string }
+  | { type: 'returnOpenCard'; playerId: string }
+  | { type: 'placeMelds'; playerId: string; melds: MeldPayload[] }
+  | { type: 'addCardsToMeld'; playerId: string; additions: MeldAdditionPayload[] }
+  | { type: 'discard'; playerId: string; card: Card }
+  | { type: 'swapJoker'; playerId: string; swap: JokerSwapPayload }
+  | { type: 'undoPlacement'; playerId: string }
+  | { type: 'reorderPlacements'; playerId: string; order: number[] }
+  | { type: 'show'; playerId: string; payload: ShowPayload };
+
+export type ActionType = GameAction['type'];
+
+/** The actions that only stage cards on the board until the turn commits. */
+export type PlacementAction = Extract<GameAction, { type: 'placeMelds' | 'addCardsToMeld' | 'swapJoker' }>;
+
+/** A staged placement and the meld ids it created (reused when it is re-applied). */
+export interface StagedStep {
+  action: PlacementAction;
+  meldIds: string[];
 }
 
+/** What the current player's staged placements may change, as it was before the first one. */
+export interface TurnCheckpoint {
+  hand: Card[];
+  board: TeamBoard;
+  pendingPickup: Card | null;
+  placedThisTurn: boolean;
+}
+
+/** Journal entry: the action plus its position and wall-clock time (ms). */
+export type ActionRecord = GameAction & { seq: number; at: number };
+
+export interface ReplayOptions {
+  // Apply only the first `steps` actions (default: all)
+  steps?: number;
+}
+
+//#endregion
+
+//#region Utilities / Constants
+
+function clone<T>(x: T): T { return JSON.parse(JSON.stringify(x)); }
+
 function cardLabel(c: Card): string {
   if (c.suit === 'JOKER') return '🃏Joker';
   const ranks = {1:'A',11:'J',12:'Q',13:'K'} as Record<number,string>;
@@ -160,7 +377,7 @@ function cardLabel(c: Card): string {
 
 function isPrintedJoker(c: Card): boolean { return c.suit === 'JOKER'; }
 function isTwo(c: Card): boolean { return c.suit !== 'JOKER' && c.rank === 2; }
-function isJoker(c: Card): boolean { return isPrintedJoker(c) || isTwo(c); }
+export function isJoker(c: Card): boolean { return isPrintedJoker(c) || isTwo(c); }
 
 function compareCards(a: Card, b: Card): number {
   // For sorting by suit then rank then id
@@ -173,39 +390,30 @@ function compareCards(a: Card, b: Card): number {
 
 //#region Deck / Setup
 
-function buildTwoDecks(): Card[] {
+function buildTwoDecks(rng: Rng, rules: HouseRules): Card[] {
   const cards: Card[] = [];
   const suits: Suit[] = ['S','H','D','C'];
   for (let deck = 0; deck < 2; deck++) {
     // Standard suits A..K (1..13)
     for (const s of suits) {
       for (let r = 1; r <= 13; r++) {
-        const c: Card = { suit: s, rank: r, id: uid('c') };
+        const c: Card = { suit: s, rank: r, id: rng.id('c') };
         cards.push(c);
       }
     }
-    // Printed joker (assume 2 printed jokers per deck -> adjust if needed)
-    for (let pj = 0; pj < 2; pj++) {
-      cards.push({ suit: 'JOKER', rank: 0, id: uid('j') });
+    // Printed jokers (house rule; 2 per deck classic)
+    for (let pj = 0; pj < rules.printedJokersPerDeck; pj++) {
+      cards.push({ suit: 'JOKER', rank: 0, id: rng.id('j') });
     }
   }
-  return shuffle(cards);
-}
-
-function shuffle<T>(arr: T[]): T[] {
-  const a = arr.slice();
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
+  return rng.shuffle(cards);
 }
 
 //#endregion
 
 //#region Meld Validation
 
-function classifyMeld(cards: Card[]): MeldType | null {
+export function classifyMeld(cards: Card[], rules: HouseRules): MeldType | null {
   // Special: exactly 3 jokers
   if (cards.length === 3 && cards.every(isJoker)) return MeldType.ThreeJokers;
 
@@ -223,36 +431,302 @@ function classifyMeld(cards: Card[]): MeldType | null {
     return jokers.length === 0 ? MeldType.SetPure : MeldType.SetImpure;
   }
 
-  // Try Sequence (same suit, consecutive ranks; A high only; no wrap)
+  // Try Sequence (same suit, consecutive ranks; ace placement and wrap per house rules)
   if (suits.size === 1) {
     const suit = naturals[0].suit;
     if (suit === 'JOKER') return null; // shouldn't happen since filtered
-    const sorted = naturals.slice().sort((a,b)=>a.rank-b.rank);
-    // No duplicates of same rank within sequence (even double-deck) among naturals
-    for (let i=1;i<sorted.length;i++) if (sorted[i].rank===sorted[i-1].rank) return null;
-    // Check gaps
-    let gaps = 0;
-    for (let i=1;i<sorted.length;i++) {
-      const diff = sorted[i].rank - sorted[i-1].rank;
-      if (diff < 1) return null;
-      gaps += (diff - 1);
-    }
-    // Jokers can fill gaps or extend at ends by exactly 1 card position
-    if (gaps > 1) return null; // with 1 joker we can fill at most 1 gap or extend by one
+    if (cards.length > 13) return null; // a sequence covers each rank at most once
+    const gaps = sequenceGaps(naturals.map(c => c.rank), rules);
+    if (gaps === null) return null;
+    // Each joker fills one gap; a spare joker extends the run at one end
+    if (gaps > jokers.length) return null;
     return jokers.length === 0 ? MeldType.SequencePure : MeldType.SequenceImpure;
   }
 
   return null;
 }
 
-function isPureSevenForShow(cards: Card[]): boolean {
-  const t = classifyMeld(cards);
-  if (t === MeldType.SequencePure && cards.length >= 7) return true;
-  if (t === MeldType.SetPure && cards.length >= 7) return true;
-  return false; // impure not allowed for 7-card show
+/**
+ * Fewest missing ranks needed to make the given natural ranks one consecutive
+ * run, or null if a rank repeats. Tries every ace placement and, with
+ * wraparound, every rotation of the 13-rank cycle.
+ */
+function sequenceGaps(ranks: number[], rules: HouseRules): number | null {
+  const layout = sequenceLayout(ranks, rules);
+  return layout ? spanGaps(layout) : null;
+}
+
+function spanGaps(positions: number[]): number {
+  return positions[positions.length-1] - positions[0] + 1 - positions.length;
+}
+
+/**
+ * Sorted sequence positions for the given ranks under the ace/wrap rules,
+ * choosing the interpretation with the fewest gaps; null if a rank repeats.
+ */
+function sequenceLayout(ranks: number[], rules: HouseRules): number[] | null {
+  const sorted = ranks.slice().sort((a,b)=>a-b);
+  // No duplicates of same rank within sequence (even double-deck) among naturals
+  for (let i=1;i<sorted.length;i++) if (sorted[i]===sorted[i-1]) return null;
+
+  const options: number[][] = [];
+  if (rules.wraparound) {
+    for (let k=0;k<sorted.length;k++) {
+      options.push([...sorted.slice(k), ...sorted.slice(0,k).map(r=>r+13)]);
+    }
+  } else {
+    if (rules.aces !== 'high') options.push(sorted);
+    if (rules.aces !== 'low') options.push(sorted.map(r => r === 1 ? 14 : r).sort((a,b)=>a-b));
+  }
+  return options.reduce((best, o) => spanGaps(o) < spanGaps(best) ? o : best);
+}
+
+/**
+ * Decide what each not-yet-assigned joker in a meld stands for. `fixed` are
+ * assignments already on the board (treated like naturals of that rank).
+ * A sequence joker fills the gap if there is one, else extends the run at the
+ * high end (or low end when the high end is out of range, or when `hintRank`
+ * asks for it). Returns null if `hintRank` names an impossible position.
+ */
+function assignJokers(cards: Card[], type: MeldType, rules: HouseRules, fixed: JokerAssignment[] = [], hintRank?: number): JokerAssignment[] | null {
+  const fixedIds = new Set(fixed.map(a => a.jokerId));
+  const jokers = cards.filter(c => isJoker(c) && !fixedIds.has(c.id));
+  if (type === MeldType.ThreeJokers || jokers.length === 0) return [];
+  const naturals = cards.filter(c => !isJoker(c));
+
+  if (type === MeldType.SetPure || type === MeldType.SetImpure) {
+    if (hintRank !== undefined && hintRank !== naturals[0].rank) return null;
+    return jokers.map(j => ({ jokerId: j.id, rank: naturals[0].rank, suit: null }));
+  }
+
+  const suit = naturals[0].suit;
+  const layout = sequenceLayout([...naturals.map(c => c.rank), ...fixed.map(a => a.rank)], rules);
+  if (!layout) return null;
+  const lo = layout[0], hi = layout[layout.length-1];
+  const taken = new Set(layout);
+  const slots: number[] = [];
+  for (let p = lo; p <= hi; p++) if (!taken.has(p)) slots.push(p);
+  // Then the two ends (max 1 joker per meld, so one step out is enough)
+  if (hi - lo + 1 < 13) {
+    for (const p of [hi + 1, lo - 1]) if (rankAtPosition(p, rules) !== null) slots.push(p);
+  }
+  // Gaps must be filled first; only then may a joker sit at an end
+  const gaps = slots.filter(p => p > lo && p < hi);
+  let order = slots;
+  if (hintRank !== undefined) {
+    const hinted = order.find(p => rankAtPosition(p, rules) === hintRank);
+    if (hinted === undefined || (gaps.length && !gaps.includes(hinted))) return null;
+    order = [hinted, ...order.filter(p => p !== hinted)];
+  }
+  if (order.length < jokers.length) return null;
+  return jokers.map((j, i) => ({ jokerId: j.id, rank: rankAtPosition(order[i], rules)!, suit }));
+}
+
+/**
+ * Type of `meld` after adding `add`, or null if invalid. Jokers already on the
+ * board keep their recorded rank, so e.g. 5-🃏(6)-7 cannot take a natural 6.
+ */
+function extensionType(meld: Meld, add: Card[], rules: HouseRules): MeldType | null {
+  const type = classifyMeld([...meld.cards, ...add], rules);
+  if (!type || meld.jokerAssignments.length === 0) return type;
+  if (type === MeldType.SequencePure || type === MeldType.SequenceImpure) {
+    const naturals = [...meld.cards, ...add].filter(c => !isJoker(c)).map(c => c.rank);
+    const gaps = sequenceGaps([...naturals, ...meld.jokerAssignments.map(a => a.rank)], rules);
+    if (gaps === null || gaps > add.filter(isJoker).length) return null;
+  }
+  return type;
+}
+
+/** Meld types a card taken from the open pile may go into (jokers are restricted). */
+function openTopMeldAllowed(top: Card, type: MeldType): boolean {
+  return !isJoker(top) || type === MeldType.SequencePure || type === MeldType.ThreeJokers;
+}
+
+function isPureForShow(m: { type: MeldType; cards: Card[] }, rules: HouseRules): boolean {
+  // impure not allowed for a Show
+  return (m.type === MeldType.SequencePure || m.type === MeldType.SetPure) && m.cards.length >= rules.showLength;
 }
 
-function isPureSequence(cards: Card[]): boolean { return classifyMeld(cards) === MeldType.SequencePure; }
+export function cardValue(c: Card, rules: HouseRules): number {
+  if (isJoker(c)) return rules.jokerCardValue;
+  if (c.rank >= 3 && c.rank <= 7) return 5;
+  if ((c.rank >= 8 && c.rank <= 10) || c.rank === 11 || c.rank === 12 || c.rank === 13) return 10;
+  if (c.rank === 1) return 15; // Ace
+  return 0; // rank 2 treated as joker, already handled above
+}
+
+function meldPointsFor(type: MeldType, rules: HouseRules): number {
+  switch (type) {
+    case MeldType.SequencePure:
+    case MeldType.SetPure:
+      return rules.pureMeldPoints;
+    case MeldType.SequenceImpure:
+    case MeldType.SetImpure:
+    case MeldType.ThreeJokers: // counts as impure
+      return rules.impureMeldPoints;
+  }
+}
+
+//#endregion
+
+//#region Meld Finder
+
+export interface FoundMeld {
+  cards: Card[];
+  type: MeldType;
+}
+
+/**
+ * Cards indexed by rank and by suit+rank, answering "which melds can this card
+ * form?" by looking up its neighbours instead of enumerating subsets.
+ *
+ * Any valid meld containing a card also yields a valid 3-card meld containing
+ * it (a 3-window of a run, or 3 of a set), so meldsWith() only builds those.
+ * Every result is re-checked with classifyMeld.
+ */
+export class MeldIndex {
+  private byRank = new Map<number, Card[]>();
+  private bySuitRank = new Map<string, Card[]>();
+  private jokers: Card[] = [];
+
+  constructor(private cards: Card[], private rules: HouseRules) {
+    for (const c of cards) {
+      if (isJoker(c)) { this.jokers.push(c); continue; }
+      pushTo(this.byRank, c.rank, c);
+      pushTo(this.bySuitRank, `${c.suit}${c.rank}`, c);
+    }
+  }
+
+  /** Minimal (3-card) melds that include `card`; `card` need not be indexed. */
+  meldsWith(card: Card): FoundMeld[] {
+    const out: FoundMeld[] = [];
+    const push = (cards: Array<Card | undefined>) => {
+      if (cards.some(c => !c)) return;
+      const type = classifyMeld(cards as Card[], this.rules);
+      if (type) out.push({ cards: cards as Card[], type });
+    };
+    const others = (list: Card[] | undefined) => (list ?? []).filter(c => c.id !== card.id);
+    const jokers = others(this.jokers);
+
+    if (isJoker(card)) {
+      push([card, jokers[0], jokers[1]]);
+      for (const same of this.byRank.values()) push([same[0], same[1], card]);
+      for (const [a, b] of this.runPairs()) push([a, b, card]);
+      return dedupeMelds(out);
+    }
+
+    // Sets
+    const same = others(this.byRank.get(card.rank));
+    push([card, same[0], same[1]]);
+    push([card, same[0], jokers[0]]);
+
+    // Sequences: every 3-position window around each position the card can take
+    for (const p of seqPositions(card.rank, this.rules)) {
+      for (const [d1, d2] of [[-2, -1], [-1, 1], [1, 2]]) {
+        const a = this.naturalAt(card.suit, p + d1, card.id);
+        const b = this.naturalAt(card.suit, p + d2, card.id);
+        if (a && b) push([card, a, b]);
+        else if (a || b) push([card, (a ?? b)!, jokers[0]]);
+      }
+    }
+    return dedupeMelds(out);
+  }
+
+  /** Can `card` join some valid meld (optionally only of an accepted type)? */
+  canJoin(card: Card, accept: (type: MeldType) => boolean = () => true): boolean {
+    return this.meldsWith(card).some(m => accept(m.type));
+  }
+
+  /**
+   * Candidate melds from all indexed cards: maximal sets per rank, every run
+   * window per suit (a joker may fill one missing rank), and three jokers.
+   */
+  allMelds(): FoundMeld[] {
+    const out: FoundMeld[] = [];
+    const jokers = this.jokers;
+    const push = (cards: Card[]) => {
+      const type = classifyMeld(cards, this.rules);
+      if (type) out.push({ cards, type });
+    };
+
+    // Sets
+    for (const same of this.byRank.values()) {
+      if (same.length >= 3) push(same);
+      if (same.length >= 2 && jokers.length > 0) push([...same, jokers[0]]);
+    }
+
+    // Sequences: positions 1..14 (14 = high ace); 1..26 with wraparound
+    const maxPos = this.rules.wraparound ? 26 : 14;
+    for (const suit of ['S','H','D','C'] as Suit[]) {
+      for (let lo = 1; lo <= maxPos; lo++) {
+        const run: Card[] = [];
+        let missing = 0;
+        for (let hi = lo; hi <= maxPos && hi - lo < 13; hi++) {
+          const c = this.naturalAt(suit, hi);
+          if (c) run.push(c); else missing++;
+          if (missing > Math.min(1, jokers.length)) break;
+          if (hi - lo + 1 < 3) continue;
+          push(missing ? [...run, jokers[0]] : run.slice());
+        }
+      }
+    }
+
+    if (jokers.length >= 3) push(jokers.slice(0, 3));
+    return dedupeMelds(out);
+  }
+
+  /** A natural card of `suit` at sequence position `pos`, if indexed. */
+  private naturalAt(suit: Suit, pos: number, excludeId?: string): Card | undefined {
+    const rank = rankAtPosition(pos, this.rules);
+    if (rank === null) return undefined;
+    return this.bySuitRank.get(`${suit}${rank}`)?.find(c => c.id !== excludeId);
+  }
+
+  /** Same-suit natural pairs one or two positions apart (a joker completes them). */
+  private *runPairs(): Generator<[Card, Card]> {
+    for (const list of this.bySuitRank.values()) {
+      const c = list[0];
+      for (const p of seqPositions(c.rank, this.rules)) {
+        for (const d of [1, 2]) {
+          const o = this.naturalAt(c.suit, p + d);
+          if (o) yield [c, o];
+        }
+      }
+    }
+  }
+}
+
+function pushTo<K>(m: Map<K, Card[]>, k: K, c: Card) {
+  const list = m.get(k);
+  if (list) list.push(c); else m.set(k, [c]);
+}
+
+/** Positions a rank can occupy in a sequence (ace: 1 low, 14 high). */
+function seqPositions(rank: number, rules: HouseRules): number[] {
+  if (rank !== 1 || rules.wraparound) return [rank];
+  if (rules.aces === 'low') return [1];
+  if (rules.aces === 'high') return [14];
+  return [1, 14];
+}
+
+function rankAtPosition(pos: number, rules: HouseRules): number | null {
+  if (rules.wraparound) return ((pos - 1) % 13 + 13) % 13 + 1;
+  if (pos < 1 || pos > 14) return null;
+  if (pos === 14) return rules.aces === 'low' ? null : 1;
+  if (pos === 1) return rules.aces === 'high' ? null : 1;
+  return pos;
+}
+
+/** Drop duplicates produced by ace/wrap aliases or repeated windows. */
+function dedupeMelds(melds: FoundMeld[]): FoundMeld[] {
+  const seen = new Set<string>();
+  return melds.filter(m => {
+    const key = m.cards.map(c => c.id).sort().join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
 
 //#endregion
 
@@ -260,6 +734,7 @@ function isPureSequence(cards: Card[]): boolean { return classifyMeld(cards) ===
 
 export class BucaroGame {
   private config: GameConfig;
+  private rng: Rng;
   private players: Player[] = [];
   private teamBoards: [TeamBoard, TeamBoard] = [ {teamId:0, melds:[]}, {teamId:1, melds:[]} ];
   private dealerIndex = 0;
@@ -270,32 +745,158 @@ export class BucaroGame {
   private extraShowStack: Card[] = []; // 5th 13-card stack
   private status: 'LOBBY' | 'ACTIVE' | 'ENDED' = 'LOBBY';
   private showsDone = 0;
+  private reshuffles = 0;
+  private endReason: EndReason | null = null;
   private drewThisTurn = false;
   private placedThisTurn = false;
+  private pendingPickup: Card | null = null;
+  private turnBase: TurnCheckpoint | null = null;
+  private staged: StagedStep[] = [];
+  private journal: ActionRecord[] = [];
+  private replayAt: number | null = null; // timestamp of the record being replayed
+  private readonly clock: () => number;
+
+  constructor(config: GameConfigInput = {}) {
+    const preset = config.preset ?? 'classic';
+    this.config = {
+      rngSeed: config.rngSeed ?? randomSeed(),
+      preset,
+      rules: resolveHouseRules(preset, config.rules),
+      dealerIndex: config.dealerIndex ?? 0,
+    };
+    const d = this.config.dealerIndex;
+    if (!Number.isInteger(d) || d < 0 || d > 3) throw new SetupError('INVALID_CONFIG', 'dealerIndex must be 0..3');
+    this.dealerIndex = d;
+    this.rng = new Rng(this.config.rngSeed);
+    this.clock = config.clock ?? Date.now;
+  }
+
+  /**
+   * Rebuild a game from a journal. Records are applied in order through the
+   * same public methods, so an illegal record throws exactly like live play.
+   * Timestamps of the given records are preserved in the new journal.
+   */
+  static replay(config: GameConfigInput, actions: Array<GameAction | ActionRecord>, opts: ReplayOptions = {}): BucaroGame {
+    const game = new BucaroGame(config);
+    const steps = opts.steps ?? actions.length;
+    if (steps < 0 || steps > actions.length) throw new Error('Replay step out of range');
+    for (const a of actions.slice(0, steps)) {
+      game.replayAt = 'at' in a ? (a as ActionRecord).at : null;
+      try {
+        game.applyAction(a);
+      } finally {
+        game.replayAt = null;
+      }
+    }
+    return game;
+  }
+
+  /** Dispatch a journal action to the matching public method. */
+  applyAction(a: GameAction) {
+    switch (a.type) {
+      case 'addPlayer': return this.addPlayer(a.playerId, a.name);
+      case 'startGame': return this.startGame();
+      case 'drawFromClosed': return this.drawFromClosed(a.playerId);
+      case 'drawFromOpen': return this.drawFromOpen(a.playerId);
+      case 'returnOpenCard': return this.returnOpenCard(a.playerId);
+      case 'placeMelds': return this.placeMelds(a.playerId, a.melds);
+      case 'addCardsToMeld': return this.addCardsToMeld(a.playerId, a.additions);
+      case 'swapJoker': return this.swapJoker(a.playerId, a.swap);
+      case 'undoPlacement': return this.undoPlacement(a.playerId);
+      case 'reorderPlacements': return this.reorderPlacements(a.playerId, a.order);
+      case 'discard': return this.discard(a.playerId, a.card);
+      case 'show': return this.show(a.playerId, a.payload);
+    }
+  }
 
-  constructor(config?: Partial<GameConfig>) {
-    this.config = { ...config } as GameConfig;
+  /** Complete engine state as a JSON-safe object. */
+  toSnapshot(): GameSnapshot {
+    return clone({
+      version: SNAPSHOT_VERSION,
+      config: this.config,
+      rngState: this.rng.state,
+      players: this.players,
+      teamBoards: this.teamBoards,
+      dealerIndex: this.dealerIndex,
+      currentTurn: this.currentTurn,
+      deck: this.deck,
+      closed: this.closed,
+      open: this.open,
+      extraShowStack: this.extraShowStack,
+      status: this.status,
+      showsDone: this.showsDone,
+      reshuffles: this.reshuffles,
+      endReason: this.endReason,
+      drewThisTurn: this.drewThisTurn,
+      placedThisTurn: this.placedThisTurn,
+      pendingPickup: this.pendingPickup,
+      turnBase: this.turnBase,
+      staged: this.staged,
+      journal: this.journal,
+    });
+  }
+
+  /** Restore a game from toSnapshot() output, migrating older versions first. */
+  static fromSnapshot(raw: unknown, opts: { clock?: () => number } = {}): BucaroGame {
+    const s = migrateSnapshot(clone(raw));
+    const game = new BucaroGame({ ...s.config, clock: opts.clock });
+    game.rng.state = s.rngState;
+    game.players = s.players;
+    game.teamBoards = s.teamBoards;
+    game.dealerIndex = s.dealerIndex;
+    game.currentTurn = s.currentTurn;
+    game.deck = s.deck;
+    game.closed = s.closed;
+    game.open = s.open;
+    game.extraShowStack = s.extraShowStack;
+    game.status = s.status;
+    game.showsDone = s.showsDone;
+    game.reshuffles = s.reshuffles;
+    game.endReason = s.endReason;
+    game.drewThisTurn = s.drewThisTurn;
+    game.placedThisTurn = s.placedThisTurn;
+    game.pendingPickup = s.pendingPickup;
+    game.turnBase = s.turnBase;
+    game.staged = s.staged;
+    game.journal = s.journal;
+    return game;
+  }
+
+  getConfig(): GameConfig { return clone(this.config); }
+
+  getJournal(): ActionRecord[] { return clone(this.journal); }
+
+  private record(action: GameAction) {
+    // Strip any seq/at carried over from a replayed record before re-stamping
+    const { seq: _seq, at: _at, ...rest } = action as ActionRecord;
+    this.journal.push({ ...clone(rest as GameAction), seq: this.journal.length, at: this.replayAt ?? this.clock() });
   }
 
+  /** Seed actually in use (the one from config, or the generated one). */
+  get seed(): string { return this.config.rngSeed; }
+
+  private get rules(): HouseRules { return this.config.rules; }
+
   addPlayer(id: string, name: string) {
-    if (this.status !== 'LOBBY') throw new Error('Cannot join after game start');
-    if (this.players.length >= 4) throw new Error('Lobby full');
+    if (this.status !== 'LOBBY') throw new SetupError('ALREADY_STARTED', 'Cannot join after game start');
+    if (this.players.length >= 4) throw new SetupError('LOBBY_FULL', 'Lobby full');
     const teamId = this.players.length % 2; // 0,1,0,1 seating by join order
     this.players.push({ id, name, teamId, hand: [] });
+    this.record({ type: 'addPlayer', playerId: id, name });
   }
 
   startGame() {
-    if (this.players.length !== 4) throw new Error('Need 4 players');
-    if (this.status !== 'LOBBY') throw new Error('Game already started');
+    if (this.players.length !== 4) throw new SetupError('NEED_FOUR_PLAYERS', 'Need 4 players');
+    if (this.status !== 'LOBBY') throw new SetupError('ALREADY_STARTED', 'Game already started');
 
-    this.deck = buildTwoDecks();
+    this.deck = buildTwoDecks(this.rng, this.rules);
 
     // Deal 5 stacks of 13
     const stacks: Card[][] = [];
     for (let i=0;i<5;i++) stacks.push(this.deck.splice(0,13));
 
     // Assign 4 stacks to players in dealer order rotation rules
-    // Dealer rotates every game; here we keep dealerIndex (0 default). The player to dealer's left starts.
+    // Dealer rotates every game (BucaroMatch passes config.dealerIndex). The player to dealer's left starts.
     for (let p=0;p<4;p++) {
       const idx = (this.dealerIndex + p) % 4; // dealing order can be customized; for now simple assignment
       this.players[idx].hand = stacks[p].slice();
@@ -314,8 +915,11 @@ export class BucaroGame {
     this.currentTurn = (this.dealerIndex + 1) % 4; // left of dealer starts
     this.status = 'ACTIVE';
     this.showsDone = 0;
+    this.reshuffles = 0;
+    this.endReason = null;
     this.drewThisTurn = false;
     this.placedThisTurn = false;
+    this.record({ type: 'startGame' });
   }
 
   private get teamPurePresent(): [boolean, boolean] {
@@ -334,7 +938,13 @@ export class BucaroGame {
       openCount: this.open.length,
       closedCount: this.closed.length,
       showsDone: this.showsDone,
+      reshuffles: this.reshuffles,
+      endReason: this.endReason,
       teamPurePresent: this.teamPurePresent,
+      pendingPickup: this.pendingPickup ? { ...this.pendingPickup } : null,
+      staging: this.stagingInfo(),
+      rulePreset: this.config.preset,
+      rules: { ...this.rules },
     };
   }
 
@@ -359,136 +969,445 @@ export class BucaroGame {
     };
   }
 
+  /** Table view for spectators; hands only with revealHands (e.g. delayed coaching feeds). */
+  getSpectatorState(opts: { revealHands?: boolean } = {}): SpectatorView {
+    const revealHands = !!opts.revealHands;
+    return {
+      ...this.getPublicState(),
+      players: this.players.map(p => ({
+        id: p.id,
+        name: p.name,
+        teamId: p.teamId,
+        cardCount: p.hand.length,
+        ...(revealHands ? { hand: clone(p.hand).sort(compareCards) } : {}),
+      })),
+      teamBoards: clone(this.teamBoards),
+      handsRevealed: revealHands,
+    };
+  }
+
   private requireTurn(playerId: string) {
     const idx = this.requirePlayerIndex(playerId);
-    if (idx !== this.currentTurn) throw new Error('Not your turn');
+    const blocked = this.turnBlocker(idx);
+    if (blocked) throw blocked;
     return idx;
   }
 
+  private requireDrawn(playerId: string, before: string) {
+    if (!this.drewThisTurn) throw new TurnError('MUST_DRAW_FIRST', `Must draw before ${before}`, { playerId });
+  }
+
   private requirePlayerIndex(playerId: string): number {
     const idx = this.players.findIndex(p=>p.id===playerId);
-    if (idx<0) throw new Error('Unknown player');
+    if (idx<0) throw new TurnError('UNKNOWN_PLAYER', 'Unknown player', { playerId });
     return idx;
   }
 
+  /** Everything the given player may do right now, without attempting it. */
+  getLegalActions(playerId: string): LegalActions {
+    const idx = this.requirePlayerIndex(playerId);
+    const player = this.players[idx];
+    const hand = player.hand;
+    const check = (e: BucaroRuleError | null): ActionCheck =>
+      e ? { allowed: false, reason: e.message, code: e.code } : { allowed: true };
+    const mustDraw = (before: string) =>
+      this.drewThisTurn ? null : new TurnError('MUST_DRAW_FIRST', `Must draw before ${before}`, { playerId });
+
+    const turnBlocker = this.turnBlocker(idx);
+    const placeBlocker = turnBlocker ?? mustDraw('placing');
+    const discardBlocker = turnBlocker ?? mustDraw('discarding') ?? this.pickupBlocker(playerId, 'discarding');
+
+    const teamHasPure = this.teamPurePresent[player.teamId];
+    const melds: MeldOption[] = new MeldIndex(hand, this.rules).allMelds().map(m => ({
+      cardIds: m.cards.map(c => c.id),
+      type: m.type,
+      acceptedAlone: teamHasPure || m.type === MeldType.SequencePure,
+    }));
+
+    const additions: MeldTargetOption[] = [];
+    for (const c of hand) {
+      const meldIds = this.teamBoards[player.teamId].melds
+        .filter(m => extensionType(m, [c], this.rules) !== null)
+        .map(m => m.id);
+      if (meldIds.length) additions.push({ cardId: c.id, meldIds });
+    }
+
+    const jokerSwaps: JokerSwapPayload[] = [];
+    for (const m of this.teamBoards[player.teamId].melds) {
+      for (const c of hand) {
+        if (this.swapTarget(m, c)) jokerSwaps.push({ meldId: m.id, cardId: c.id });
+      }
+    }
+
+    const top = this.open[this.open.length-1];
+    const discardable = hand.filter(c => !(top && isJoker(top) && isJoker(c))).map(c => c.id);
+
+    return {
+      playerId,
+      yourTurn: turnBlocker === null,
+      drawClosed: check(this.drawBlocker(idx, 'closed')),
+      drawOpen: check(this.drawBlocker(idx, 'open')),
+      returnOpen: check(turnBlocker ?? this.returnBlocker(playerId)),
+      mustMeld: turnBlocker ? null : this.pendingPickup?.id ?? null,
+      place: check(placeBlocker),
+      melds,
+      additions,
+      discard: check(discardBlocker),
+      discardable,
+      jokerSwaps,
+      undo: check(turnBlocker ?? this.undoBlocker(playerId)),
+    };
+  }
+
+  /** Board joker in `meld` that natural `card` can replace, if any. */
+  private swapTarget(meld: Meld, card: Card): JokerAssignment | undefined {
+    if (isJoker(card)) return undefined;
+    return meld.jokerAssignments.find(a => a.rank === card.rank && (a.suit === null || a.suit === card.suit));
+  }
+
+  private turnBlocker(idx: number): BucaroRuleError | null {
+    const playerId = this.players[idx].id;
+    if (this.status !== 'ACTIVE') return new TurnError('GAME_NOT_ACTIVE', 'Game not active', { playerId });
+    if (idx !== this.currentTurn) return new TurnError('NOT_YOUR_TURN', 'Not your turn', { playerId, currentTurn: this.currentTurn });
+    return null;
+  }
+
+  private drawBlocker(idx: number, source: 'closed' | 'open'): BucaroRuleError | null {
+    const t = this.turnBlocker(idx);
+    if (t) return t;
+    const playerId = this.players[idx].id;
+    if (this.drewThisTurn) return new TurnError('ALREADY_DREW', 'Already drew this turn', { playerId });
+    if (source === 'closed') {
+      return this.closed.length === 0 ? new PileError('CLOSED_PILE_EMPTY', 'Closed pile empty', { playerId }) : null;
+    }
+
+    const top = this.open[this.open.length-1];
+    if (!top) return new PileError('OPEN_PILE_EMPTY', 'Open pile empty', { playerId });
+    // Enforce open draw condition: must immediately place the top card into a valid meld per rules
+    // Also, if top is joker: only if used into pure sequence (rare) or 3 jokers together.
+    // We'll perform a dry-run: does there exist a meld (using top + hand cards) that is valid and respects rules?
+    const player = this.players[idx];
+    if (!this.canUseOpenTopImmediate(top, player.hand.slice(), player.teamId)) {
+      return new PileError('OPEN_TOP_NOT_PLACEABLE', 'Cannot pick from open: top card not immediately placeable per rules', {
+        playerId,
+        cardIds: [top.id],
+      });
+    }
+    return null;
+  }
+
+  /** Blocks ending the turn while an open-pile pickup is still in hand. */
+  private pickupBlocker(playerId: string, before: string): BucaroRuleError | null {
+    if (!this.pendingPickup) return null;
+    return new TurnError('PICKUP_NOT_MELDED', `Must meld the card taken from the open pile before ${before}`, {
+      playerId,
+      cardIds: [this.pendingPickup.id],
+    });
+  }
+
+  private returnBlocker(playerId: string): BucaroRuleError | null {
+    if (!this.pendingPickup) return new TurnError('NO_PICKUP_TO_RETURN', 'No open-pile card to return', { playerId });
+    if (this.placedThisTurn) {
+      return new TurnError('PICKUP_LOCKED', 'Cannot return the open-pile card after placing cards', {
+        playerId,
+        cardIds: [this.pendingPickup.id],
+      });
+    }
+    return null;
+  }
+
+  /** Clears the pickup obligation once the card has left the hand for the board. */
+  private settlePickup(idx: number) {
+    const pending = this.pendingPickup;
+    if (pending && !this.players[idx].hand.some(c=>c.id===pending.id)) this.pendingPickup = null;
+  }
+
+  /** A picked-up joker may only go into a pure sequence or three jokers (same rule as the draw check). */
+  private checkPickupMeld(playerId: string, cards: Card[], type: MeldType, where: { meldId?: string; meldIndex?: number }) {
+    const pending = this.pendingPickup;
+    if (!pending || !isJoker(pending) || !cards.some(c=>c.id===pending.id)) return;
+    if (!openTopMeldAllowed(pending, type)) {
+      throw new MeldError('PICKUP_JOKER_NOT_PURE', 'A joker taken from the open pile must go into a pure sequence or three jokers', {
+        playerId,
+        cardIds: [pending.id],
+        ...where,
+      });
+    }
+  }
+
   drawFromClosed(playerId: string) {
     const idx = this.requireTurn(playerId);
-    if (this.drewThisTurn) throw new Error('Already drew this turn');
-    if (this.closed.length === 0) throw new Error('Closed pile empty');
+    const blocked = this.drawBlocker(idx, 'closed');
+    if (blocked) throw blocked;
     const card = this.closed.pop()!;
     this.players[idx].hand.push(card);
     this.drewThisTurn = true;
+    this.record({ type: 'drawFromClosed', playerId });
   }
 
   drawFromOpen(playerId: string) {
     const idx = this.requireTurn(playerId);
-    if (this.drewThisTurn) throw new Error('Already drew this turn');
-    const top = this.open[this.open.length-1];
-    if (!top) throw new Error('Open pile empty');
-
-    // Enforce open draw condition: must immediately place the top card into a valid meld per rules
-    // Also, if top is joker: only if used into pure sequence (rare) or 3 jokers together.
-
-    // We'll perform a dry-run: does there exist a meld (using top + hand cards) that is valid and respects rules?
-    const hand = this.players[idx].hand.slice();
-
-    const canUseTop = this.canUseOpenTopImmediate(top, hand, this.players[idx].teamId);
-    if (!canUseTop) throw new Error('Cannot pick from open: top card not immediately placeable per rules');
+    const blocked = this.drawBlocker(idx, 'open');
+    if (blocked) throw blocked;
 
     // Take the top
-    this.open.pop();
+    const top = this.open.pop()!;
     this.players[idx].hand.push(top);
     this.drewThisTurn = true;
+    this.pendingPickup = top;
+    this.record({ type: 'drawFromOpen', playerId });
+  }
+
+  /** Back out of an open-pile pickup: the card goes back on the pile and the player draws again. */
+  returnOpenCard(playerId: string) {
+    const idx = this.requireTurn(playerId);
+    const blocked = this.returnBlocker(playerId);
+    if (blocked) throw blocked;
+
+    const card = this.pendingPickup!;
+    const hand = this.players[idx].hand;
+    hand.splice(hand.findIndex(c=>c.id===card.id), 1);
+    this.open.push(card);
+    this.pendingPickup = null;
+    this.drewThisTurn = false;
+    this.record({ type: 'returnOpenCard', playerId });
   }
 
   private canUseOpenTopImmediate(top: Card, hand: Card[], teamId: number): boolean {
-    const pool = [top, ...hand];
-
-    // try all combinations up to reasonable size (3..7+) that include top
-    const combos = kCombinationsIncluding(pool, 3, 7, top); // try sizes 3..7 for immediate placement
-    for (const combo of combos) {
-      const t = classifyMeld(combo);
-      if (!t) continue;
-      if (t !== MeldType.ThreeJokers) {
-        // If top is joker and meld is not pure sequence, reject unless it's ThreeJokers
-        if (isJoker(top) && t !== MeldType.SequencePure) continue;
-      } else {
-        // ThreeJokers is allowed even if top is joker
-      }
-      // Enforce team pure requirement: if team currently lacks a pure sequence,
-      // then this immediate placement must create one.
-      const teamHasPure = this.teamBoards[teamId].melds.some(m=>m.type===MeldType.SequencePure);
-      if (!teamHasPure && t !== MeldType.SequencePure) continue;
+    // Enforce team pure requirement: if team currently lacks a pure sequence,
+    // then this immediate placement must create one.
+    const teamHasPure = this.teamBoards[teamId].melds.some(m=>m.type===MeldType.SequencePure);
+    return new MeldIndex(hand, this.rules).canJoin(top, t =>
+      openTopMeldAllowed(top, t) && (teamHasPure || t === MeldType.SequencePure));
+  }
 
-      return true;
+  placeMelds(playerId: string, melds: MeldPayload[]) {
+    this.stage({ type: 'placeMelds', playerId, melds });
+  }
+
+  addCardsToMeld(playerId: string, additions: MeldAdditionPayload[]) {
+    this.stage({ type: 'addCardsToMeld', playerId, additions });
+  }
+
+  /**
+   * Replace a joker on your team board with the natural card it stands for;
+   * the joker goes to your hand.
+   */
+  swapJoker(playerId: string, swap: JokerSwapPayload) {
+    this.stage({ type: 'swapJoker', playerId, swap });
+  }
+
+  /** Take back the most recent staged placement of this turn. */
+  undoPlacement(playerId: string) {
+    const idx = this.requireTurn(playerId);
+    const blocked = this.undoBlocker(playerId);
+    if (blocked) throw blocked;
+    this.restage(idx, this.staged.slice(0, -1));
+    this.record({ type: 'undoPlacement', playerId });
+  }
+
+  /**
+   * Re-apply this turn's staged placements in a new order; `order` lists the
+   * current step indexes. Nothing changes if any step fails in the new order.
+   */
+  reorderPlacements(playerId: string, order: number[]) {
+    const idx = this.requireTurn(playerId);
+    const blocked = this.undoBlocker(playerId);
+    if (blocked) throw blocked;
+    const valid = Array.isArray(order) && order.length === this.staged.length
+      && [...order].sort((a, b) => a - b).every((v, i) => v === i);
+    if (!valid) {
+      throw new TurnError('INVALID_STAGE_ORDER', `Order must list each of the ${this.staged.length} staged steps once`, { playerId, order });
     }
-    return false;
+    this.restage(idx, order.map(i => this.staged[i]));
+    this.record({ type: 'reorderPlacements', playerId, order });
   }
 
-  placeMelds(playerId: string, melds: MeldPayload[]) {
+  private undoBlocker(playerId: string): BucaroRuleError | null {
+    return this.staged.length ? null : new TurnError('NOTHING_TO_UNDO', 'No staged placement to undo this turn', { playerId });
+  }
+
+  /**
+   * Apply a placement provisionally and remember it so it can be undone. A
+   * placement that fails part-way leaves the turn as it was.
+   */
+  private stage(action: PlacementAction) {
+    const idx = this.requireTurn(action.playerId);
+    const before = this.turnCheckpoint(idx);
+    const base = this.turnBase ?? before;
+    let meldIds: string[];
+    try {
+      meldIds = this.applyPlacement(action);
+    } catch (e) {
+      this.restoreTurn(idx, before);
+      throw e;
+    }
+    this.turnBase = base;
+    this.staged.push({ action, meldIds });
+    this.record(action);
+  }
+
+  /** Rewind to the start of the turn and re-apply `steps`; on failure the turn is left as it was. */
+  private restage(idx: number, steps: StagedStep[]) {
+    const before = this.turnCheckpoint(idx);
+    this.restoreTurn(idx, this.turnBase!);
+    try {
+      for (const step of steps) this.applyPlacement(step.action, step.meldIds);
+    } catch (e) {
+      this.restoreTurn(idx, before);
+      throw e;
+    }
+    this.staged = steps.slice();
+    if (!this.staged.length) this.turnBase = null;
+  }
+
+  private applyPlacement(action: PlacementAction, meldIds?: string[]): string[] {
+    switch (action.type) {
+      case 'placeMelds': return this.applyPlaceMelds(action.playerId, action.melds, meldIds);
+      case 'addCardsToMeld': this.applyAddCardsToMeld(action.playerId, action.additions); return [];
+      case 'swapJoker': this.applySwapJoker(action.playerId, action.swap); return [];
+    }
+  }
+
+  private turnCheckpoint(idx: number): TurnCheckpoint {
+    const player = this.players[idx];
+    return clone({
+      hand: player.hand,
+      board: this.teamBoards[player.teamId],
+      pendingPickup: this.pendingPickup,
+      placedThisTurn: this.placedThisTurn,
+    });
+  }
+
+  private restoreTurn(idx: number, cp: TurnCheckpoint) {
+    const player = this.players[idx];
+    const c = clone(cp);
+    player.hand = c.hand;
+    this.teamBoards[player.teamId] = c.board;
+    this.pendingPickup = c.pendingPickup;
+    this.placedThisTurn = c.placedThisTurn;
+  }
+
+  /** Staged placements become permanent (discard or Show). */
+  private commitStaged() {
+    this.turnBase = null;
+    this.staged = [];
+  }
+
+  private stagingInfo(): StagingInfo | null {
+    if (!this.turnBase) return null;
+    const player = this.players[this.currentTurn];
+    const base = new Map(this.turnBase.board.melds.map(m => [m.id, new Set(m.cards.map(c => c.id))]));
+    const meldIds: string[] = [];
+    const cardIds: string[] = [];
+    for (const m of this.teamBoards[player.teamId].melds) {
+      const before = base.get(m.id);
+      const added = m.cards.filter(c => !before?.has(c.id)).map(c => c.id);
+      if (added.length) {
+        meldIds.push(m.id);
+        cardIds.push(...added);
+      }
+    }
+    return { playerId: player.id, teamId: player.teamId, steps: this.staged.length, meldIds, cardIds };
+  }
+
+  private applyPlaceMelds(playerId: string, melds: MeldPayload[], meldIds?: string[]): string[] {
     const idx = this.requireTurn(playerId);
-    if (!this.drewThisTurn) throw new Error('Must draw before placing');
+    this.requireDrawn(playerId, 'placing');
 
     const teamId = this.players[idx].teamId;
     const hand = this.players[idx].hand.slice();
 
-    const realized: Meld[] = [];
-    for (const mp of melds) {
-      const cards = mp.cardIds.map(id=>
-        hand.find(c=>c.id===id) || this.open.find(c=>c.id===id) || null
-      );
-      if (cards.some(c=>!c)) throw new Error('Card not in hand');
+    const realized: Array<Omit<Meld, 'id'>> = [];
+    const usedCardIds = new Set<string>();
+    for (const [meldIndex, mp] of melds.entries()) {
+      for (const id of mp.cardIds) {
+        if (usedCardIds.has(id)) throw new CardError('DUPLICATE_CARD', 'Duplicate card in placement', { playerId, cardIds: [id], meldIndex });
+        usedCardIds.add(id);
+      }
+      const cards = mp.cardIds.map(id => hand.find(c=>c.id===id) || null);
+      const missing = mp.cardIds.filter((_, i) => !cards[i]);
+      if (missing.length) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand', { playerId, cardIds: missing, meldIndex });
       const cset = cards as Card[];
-      const t = classifyMeld(cset);
-      if (!t) throw new Error('Invalid meld');
-      realized.push({ id: uid('meld'), type: t, cards: cset.slice() });
+      const t = classifyMeld(cset, this.rules);
+      if (!t) throw new MeldError('INVALID_MELD', 'Invalid meld', { playerId, cardIds: mp.cardIds, meldIndex });
+      const jokerAssignments = assignJokers(cset, t, this.rules, [], mp.jokerRank);
+      if (!jokerAssignments) {
+        throw new MeldError('INVALID_JOKER_POSITION', 'Joker cannot stand for that rank', { playerId, cardIds: mp.cardIds, meldIndex, jokerRank: mp.jokerRank });
+      }
+      this.checkPickupMeld(playerId, cset, t, { meldIndex });
+      realized.push({ type: t, cards: cset.slice(), jokerAssignments, placedBy: playerId });
     }
 
     // Team pure requirement: if team currently lacks pure sequence, at least one placed meld must be SequencePure
     const teamHasPure = this.teamBoards[teamId].melds.some(m=>m.type===MeldType.SequencePure);
     if (!teamHasPure) {
       if (!realized.some(m=>m.type===MeldType.SequencePure)) {
-        throw new Error('Your team must establish a pure sequence with this placement');
+        throw new MeldError('TEAM_PURE_REQUIRED', 'Your team must establish a pure sequence with this placement', {
+          playerId,
+          cardIds: melds.flatMap(m => m.cardIds),
+        });
       }
     }
 
-    // All good: remove cards from hand and add melds to board
-    for (const m of realized) {
+    // All good: remove cards from hand and add melds to board. Ids are drawn
+    // (or reused, on a staged replay) only now, so a rejected placement leaves
+    // the PRNG (and replays) untouched.
+    const placedIds: string[] = [];
+    for (const [meldIndex, m] of realized.entries()) {
       // remove from hand
       for (const c of m.cards) {
         const i = this.players[idx].hand.findIndex(x=>x.id===c.id);
-        if (i<0) throw new Error('Internal: card missing from hand');
+        if (i<0) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand', { playerId, cardIds: [c.id] });
         this.players[idx].hand.splice(i,1);
       }
-      this.teamBoards[teamId].melds.push(m);
+      const id = meldIds?.[meldIndex] ?? this.rng.id('meld');
+      this.teamBoards[teamId].melds.push({ id, ...m });
+      placedIds.push(id);
     }
 
     this.placedThisTurn = true;
+    this.settlePickup(idx);
+    return placedIds;
   }
 
-  addCardsToMeld(playerId: string, additions: MeldAdditionPayload[]) {
+  private applyAddCardsToMeld(playerId: string, additions: MeldAdditionPayload[]) {
     const idx = this.requireTurn(playerId);
-    if (!this.drewThisTurn) throw new Error('Must draw before placing');
+    this.requireDrawn(playerId, 'placing');
 
     const teamId = this.players[idx].teamId;
 
+    // A card can go into one addition only
+    const usedCardIds = new Set<string>();
+    for (const add of additions) {
+      for (const id of add.cardIds) {
+        if (usedCardIds.has(id)) throw new CardError('DUPLICATE_CARD', 'Duplicate card in additions', { playerId, cardIds: [id], meldId: add.meldId });
+        usedCardIds.add(id);
+      }
+    }
+
     for (const add of additions) {
       const meld = this.teamBoards[teamId].melds.find(m=>m.id===add.meldId);
-      if (!meld) throw new Error('Target meld not on your team board');
+      if (!meld) throw new MeldError('MELD_NOT_FOUND', 'Target meld not on your team board', { playerId, meldId: add.meldId });
 
       const addCards: Card[] = [];
       for (const id of add.cardIds) {
         const i = this.players[idx].hand.findIndex(c=>c.id===id);
-        if (i<0) throw new Error('Card not in hand');
+        if (i<0) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand', { playerId, cardIds: [id], meldId: add.meldId });
         addCards.push(this.players[idx].hand[i]);
       }
 
-      // Validate merged meld
-      const newMeldType = classifyMeld([...meld.cards, ...addCards]);
-      if (!newMeldType) throw new Error('Addition would make meld invalid');
+      // Validate merged meld (board jokers keep the rank they were assigned)
+      const newMeldType = extensionType(meld, addCards, this.rules);
+      const added = newMeldType && assignJokers([...meld.cards, ...addCards], newMeldType, this.rules, meld.jokerAssignments, add.jokerRank);
+      if (!newMeldType || !added) {
+        throw new MeldError('INVALID_ADDITION', 'Addition would make meld invalid', { playerId, cardIds: add.cardIds, meldId: add.meldId });
+      }
+      this.checkPickupMeld(playerId, addCards, newMeldType, { meldId: add.meldId });
 
       meld.cards.push(...addCards);
       meld.type = newMeldType;
+      meld.jokerAssignments.push(...added);
 
       // Remove from hand
       for (const c of addCards) {
@@ -498,20 +1417,60 @@ export class BucaroGame {
     }
 
     this.placedThisTurn = true;
+    this.settlePickup(idx);
+  }
+
+  private applySwapJoker(playerId: string, swap: JokerSwapPayload) {
+    const idx = this.requireTurn(playerId);
+    this.requireDrawn(playerId, 'swapping a joker');
+
+    const player = this.players[idx];
+    const meld = this.teamBoards[player.teamId].melds.find(m=>m.id===swap.meldId);
+    if (!meld) throw new MeldError('MELD_NOT_FOUND', 'Target meld not on your team board', { playerId, meldId: swap.meldId });
+    const hi = player.hand.findIndex(c=>c.id===swap.cardId);
+    if (hi<0) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand', { playerId, cardIds: [swap.cardId], meldId: swap.meldId });
+    const card = player.hand[hi];
+
+    const assignment = this.swapTarget(meld, card);
+    if (!assignment) {
+      throw new MeldError('JOKER_SWAP_MISMATCH', 'Card does not match any joker in that meld', {
+        playerId,
+        cardIds: [card.id],
+        meldId: meld.id,
+        jokers: meld.jokerAssignments,
+      });
+    }
+
+    const ji = meld.cards.findIndex(c=>c.id===assignment.jokerId);
+    const joker = meld.cards[ji];
+    const cards = meld.cards.slice();
+    cards[ji] = card;
+    const newType = classifyMeld(cards, this.rules);
+    if (!newType) throw new MeldError('INVALID_MELD', 'Swap would make meld invalid', { playerId, cardIds: [card.id], meldId: meld.id });
+
+    meld.cards = cards;
+    meld.type = newType;
+    meld.jokerAssignments = meld.jokerAssignments.filter(a => a !== assignment);
+    player.hand.splice(hi, 1, joker);
+
+    this.placedThisTurn = true;
+    this.settlePickup(idx);
   }
 
   discard(playerId: string, card: Card) {
     const idx = this.requireTurn(playerId);
-    if (!this.drewThisTurn) throw new Error('Must draw before discarding');
+    this.requireDrawn(playerId, 'discarding');
+    const pickup = this.pickupBlocker(playerId, 'discarding');
+    if (pickup) throw pickup;
 
     // Validate card in hand
     const i = this.players[idx].hand.findIndex(c=>c.id===card.id);
-    if (i<0) throw new Error('Card not in hand');
+    if (i<0) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand', { playerId, cardIds: [card.id] });
 
     // No discarding joker on joker
     const top = this.open[this.open.length-1];
     if (top && isJoker(top) && isJoker(card)) {
-      throw new Error('Cannot discard a joker on top of a joker');
+      throw new CardError('JOKER_ON_JOKER', 'Cannot discard a joker on top of a joker', { playerId, cardIds: [card.id, top.id] });
     }
 
     // Discard
@@ -520,64 +1479,90 @@ export class BucaroGame {
 
     // End turn
     this.endTurnAdvance();
+    this.record({ type: 'discard', playerId, card });
   }
 
   show(playerId: string, payload: ShowPayload) {
     const idx = this.requireTurn(playerId);
-    if (!this.drewThisTurn) throw new Error('Must draw before show');
+    this.requireDrawn(playerId, 'show');
 
     // Build melds from payload using current hand
     const teamId = this.players[idx].teamId;
     const hand = this.players[idx].hand.slice();
 
-    const realized: Meld[] = [];
+    const realized: Array<Omit<Meld, 'id'>> = [];
     let usedCardIds = new Set<string>();
 
-    for (const mp of payload.melds) {
+    for (const [meldIndex, mp] of payload.melds.entries()) {
       const cards: Card[] = [];
       for (const id of mp.cardIds) {
-        if (usedCardIds.has(id)) throw new Error('Duplicate card in show payload');
+        if (usedCardIds.has(id)) throw new CardError('DUPLICATE_CARD', 'Duplicate card in show payload', { playerId, cardIds: [id], meldIndex });
         const found = hand.find(c=>c.id===id);
-        if (!found) throw new Error('Card not in hand for show');
+        if (!found) throw new CardError('CARD_NOT_IN_HAND', 'Card not in hand for show', { playerId, cardIds: [id], meldIndex });
         cards.push(found);
         usedCardIds.add(id);
       }
-      const t = classifyMeld(cards);
-      if (!t) throw new Error('Invalid meld in show');
-      realized.push({ id: uid('meld'), type: t, cards });
+      const t = classifyMeld(cards, this.rules);
+      if (!t) throw new MeldError('INVALID_MELD', 'Invalid meld in show', { playerId, cardIds: mp.cardIds, meldIndex });
+      const jokerAssignments = assignJokers(cards, t, this.rules, [], mp.jokerRank);
+      if (!jokerAssignments) {
+        throw new MeldError('INVALID_JOKER_POSITION', 'Joker cannot stand for that rank', { playerId, cardIds: mp.cardIds, meldIndex, jokerRank: mp.jokerRank });
+      }
+      this.checkPickupMeld(playerId, cards, t, { meldIndex });
+      realized.push({ type: t, cards, jokerAssignments, placedBy: playerId });
     }
 
-    // Must contain at least one 7-card pure set/sequence
-    const hasPureSeven = realized.some(m => (m.type===MeldType.SequencePure || m.type===MeldType.SetPure) && m.cards.length>=7);
-    if (!hasPureSeven) throw new Error('Show requires a 7-card pure sequence or pure set');
+    // A pending open-pile card has to be part of the Show
+    if (this.pendingPickup && !usedCardIds.has(this.pendingPickup.id)) throw this.pickupBlocker(playerId, 'show')!;
+
+    // Must contain at least one showLength (7 classic) pure set/sequence
+    const hasPureShow = realized.some(m => isPureForShow(m, this.rules));
+    if (!hasPureShow) {
+      throw new MeldError('SHOW_REQUIRES_PURE', `Show requires a ${this.rules.showLength}-card pure sequence or pure set`, {
+        playerId,
+        cardIds: [...usedCardIds],
+        showLength: this.rules.showLength,
+      });
+    }
 
     // Remove used cards from hand (must leave exactly one card in hand to discard in show())
     const remaining = hand.filter(c=>!usedCardIds.has(c.id));
-    if (remaining.length !== 1) throw new Error('Show must leave exactly one card to discard');
+    if (remaining.length !== 1) {
+      throw new MeldError('SHOW_MUST_LEAVE_ONE', 'Show must leave exactly one card to discard', { playerId, cardIds: remaining.map(c => c.id) });
+    }
 
-    // Apply melds to board
-    for (const m of realized) this.teamBoards[teamId].melds.push(m);
+    // Discard the last card (required by rules); same joker-on-joker restriction
+    const lastToDiscard = remaining[0];
+    const top = this.open[this.open.length-1];
+    if (top && isJoker(top) && isJoker(lastToDiscard)) {
+      throw new CardError('JOKER_ON_JOKER', 'Cannot discard a joker on a joker (during show)', { playerId, cardIds: [lastToDiscard.id, top.id] });
+    }
 
-    // Update player hand
-    this.players[idx].hand = remaining;
+    // The final Show ends the game; any earlier one takes the extra 13-card stack
+    const endsGame = this.showsDone + 1 >= this.rules.showsToEnd;
+    if (!endsGame && this.extraShowStack.length !== 13) {
+      throw new PileError('SHOW_STACK_TAKEN', 'Extra show stack already taken', { playerId });
+    }
 
-    // Discard the last card (required by rules)
-    const lastToDiscard = this.players[idx].hand.pop()!;
-    // Same joker-on-joker restriction
-    const top = this.open[this.open.length-1];
-    if (top && isJoker(top) && isJoker(lastToDiscard)) throw new Error('Cannot discard a joker on a joker (during show)');
+    // All checks passed (meld ids are drawn only now): apply melds to board,
+    // discard, take the stack
+    for (const m of realized) this.teamBoards[teamId].melds.push({ id: this.rng.id('meld'), ...m });
+    this.players[idx].hand = [];
+    this.pendingPickup = null;
+    this.commitStaged();
     this.open.push(lastToDiscard);
-
-    // Take the extra 13-card stack and continue turn
-    if (this.extraShowStack.length !== 13) throw new Error('Extra show stack already taken');
-    this.players[idx].hand.push(...this.extraShowStack);
-    this.extraShowStack = [];
+    if (!endsGame) {
+      this.players[idx].hand.push(...this.extraShowStack);
+      this.extraShowStack = [];
+    }
 
     // Mark show
     this.showsDone += 1;
-    if (this.showsDone >= 2) {
+    this.record({ type: 'show', playerId, payload });
+    if (this.showsDone >= this.rules.showsToEnd) {
       // Instant end of game
       this.status = 'ENDED';
+      this.endReason = 'SHOWS';
       return;
     }
 
@@ -586,50 +1571,66 @@ export class BucaroGame {
   }
 
   private endTurnAdvance() {
-    // If closed exhausted -> end game
-    if (this.closed.length === 0) {
-      this.status = 'ENDED';
-    }
+    if (this.closed.length === 0) this.closedExhausted();
 
     this.currentTurn = (this.currentTurn + 1) % 4;
     this.drewThisTurn = false;
     this.placedThisTurn = false;
+    this.pendingPickup = null;
+    this.commitStaged();
+  }
+
+  /**
+   * The closed pile is empty at the end of a turn, so the next player could
+   * not draw from it: end the game, or (house rule) shuffle the open pile
+   * under its top card into a new closed pile.
+   */
+  private closedExhausted() {
+    if (this.rules.onClosedExhausted === 'end' || this.reshuffles >= this.rules.maxReshuffles) {
+      this.status = 'ENDED';
+      this.endReason = 'CLOSED_PILE_EXHAUSTED';
+      return;
+    }
+    if (this.open.length <= 1) {
+      this.status = 'ENDED';
+      this.endReason = 'NO_CARDS_TO_RESHUFFLE';
+      return;
+    }
+    const top = this.open.pop()!;
+    this.closed = this.rng.shuffle(this.open);
+    this.open = [top];
+    this.reshuffles += 1;
   }
 
   computeFinalScores(): FinalScoreSummary {
-    if (this.status !== 'ENDED') throw new Error('Game not yet ended');
+    if (this.status !== 'ENDED') throw new SetupError('GAME_NOT_ENDED', 'Game not yet ended');
 
     // Compute meld points and card points from boards
     const details: FinalScoreSummary['details'] = [];
 
-    // Helper to score a card value
-    const cardValue = (c: Card): number => {
-      if (isJoker(c)) return JOKER_CARD_VALUE;
-      if (c.rank >= 3 && c.rank <= 7) return 5;
-      if ((c.rank >= 8 && c.rank <= 10) || c.rank === 11 || c.rank === 12 || c.rank === 13) return 10;
-      if (c.rank === 1) return 15; // Ace
-      return 0; // rank 2 treated as joker, already handled above
-    };
+    const rules = this.rules;
+    const scoreCards = (cards: Card[]): CardScore[] => cards.map(card => ({ card: { ...card }, value: cardValue(card, rules) }));
+    const sum = (cards: CardScore[]) => cards.reduce((t, c) => t + c.value, 0);
 
     const tallyTeam = (teamId: number) => {
-      const board = this.teamBoards[teamId];
-      let meldPoints = 0;
-      let cardPoints = 0;
-      let hasSevenPure = false;
-      for (const m of board.melds) {
-        switch (m.type) {
-          case MeldType.SequencePure: meldPoints += 200; break;
-          case MeldType.SetPure: meldPoints += 200; break;
-          case MeldType.SequenceImpure: meldPoints += 100; break;
-          case MeldType.SetImpure: meldPoints += 100; break;
-          case MeldType.ThreeJokers: meldPoints += 100; break; // counts as impure
-        }
-        if ((m.type===MeldType.SequencePure || m.type===MeldType.SetPure) && m.cards.length>=7) {
-          hasSevenPure = true;
-        }
-        for (const c of m.cards) cardPoints += cardValue(c);
-      }
-      return { meldPoints, cardPoints, hasSevenPure };
+      const melds: MeldScoreLine[] = this.teamBoards[teamId].melds.map(m => {
+        const cards = scoreCards(m.cards);
+        return {
+          meldId: m.id,
+          type: m.type,
+          placedBy: m.placedBy,
+          meldPoints: meldPointsFor(m.type, rules),
+          cards,
+          cardPoints: sum(cards),
+          showQualifying: isPureForShow(m, rules),
+        };
+      });
+      return {
+        melds,
+        meldPoints: melds.reduce((t, m) => t + m.meldPoints, 0),
+        cardPoints: melds.reduce((t, m) => t + m.cardPoints, 0),
+        hasShowPure: melds.some(m => m.showQualifying),
+      };
     };
 
     const t0 = tallyTeam(0);
@@ -637,8 +1638,8 @@ export class BucaroGame {
 
     // Penalties
     let penalty0 = 0, penalty1 = 0;
-    if (!t0.hasSevenPure) penalty0 = -200;
-    if (!t1.hasSevenPure) penalty1 = -200;
+    if (!t0.hasShowPure) penalty0 = -rules.noShowPenalty;
+    if (!t1.hasShowPure) penalty1 = -rules.noShowPenalty;
 
     // Transfer in-hand cards from loser(s) to winners only applies in final scoring.
     // Interpretation: if a team has penalty (no seven pure), they are the loser for this transfer.
@@ -646,30 +1647,37 @@ export class BucaroGame {
     // to give cards in its hands to the other team". We'll implement: if exactly one team lacks 7-pure,
     // that team's remaining hand cards (both players) are valued and added to the other team's cardPoints.
 
-    const handValues = (teamId: number) => {
-      let sum = 0;
-      for (const p of this.players.filter(pl=>pl.teamId===teamId)) {
-        for (const c of p.hand) sum += cardValue(c);
-      }
-      return sum;
-    };
+    const t0Loser = !t0.hasShowPure && t1.hasShowPure;
+    const t1Loser = !t1.hasShowPure && t0.hasShowPure;
+    const transferTo = (teamId: number): number | null =>
+      (teamId === 0 && t0Loser) || (teamId === 1 && t1Loser) ? 1 - teamId : null;
 
-    let gain0 = 0, gain1 = 0;
-    const t0Loser = !t0.hasSevenPure && t1.hasSevenPure;
-    const t1Loser = !t1.hasSevenPure && t0.hasSevenPure;
-    if (t0Loser) { gain1 += handValues(0); }
-    if (t1Loser) { gain0 += handValues(1); }
+    const hands: HandScoreLine[] = this.players.map(p => {
+      const cards = scoreCards(p.hand);
+      return { playerId: p.id, cards, value: sum(cards), transferredTo: transferTo(p.teamId) };
+    });
+    const handsOf = (teamId: number) => hands.filter((_, i) => this.players[i].teamId === teamId);
+    const transferIn = (teamId: number) => hands.filter(h => h.transferredTo === teamId).flatMap(h => h.cards);
+
+    const gain0 = sum(transferIn(0));
+    const gain1 = sum(transferIn(1));
 
     const team0Total = t0.meldPoints + t0.cardPoints + penalty0 + gain0;
     const team1Total = t1.meldPoints + t1.cardPoints + penalty1 + gain1;
 
-    details.push({ teamId:0, meldPoints: t0.meldPoints, cardPoints: t0.cardPoints, penalty: penalty0, inHandGainsFromOpp: gain0, comment: summaryComment(t0, penalty0) });
-    details.push({ teamId:1, meldPoints: t1.meldPoints, cardPoints: t1.cardPoints, penalty: penalty1, inHandGainsFromOpp: gain1, comment: summaryComment(t1, penalty1) });
+    details.push({
+      teamId: 0, meldPoints: t0.meldPoints, cardPoints: t0.cardPoints, penalty: penalty0, inHandGainsFromOpp: gain0,
+      comment: summaryComment(t0, penalty0), melds: t0.melds, hands: handsOf(0), transferIn: transferIn(0),
+    });
+    details.push({
+      teamId: 1, meldPoints: t1.meldPoints, cardPoints: t1.cardPoints, penalty: penalty1, inHandGainsFromOpp: gain1,
+      comment: summaryComment(t1, penalty1), melds: t1.melds, hands: handsOf(1), transferIn: transferIn(1),
+    });
 
-    return { teamScores: [team0Total, team1Total], details };
+    return { teamScores: [team0Total, team1Total], endReason: this.endReason!, details };
 
-    function summaryComment(tally: {hasSevenPure:boolean}, penalty:number): string {
-      if (!tally.hasSevenPure && penalty === -200) return 'No 7-card pure: -200 applied';
+    function summaryComment(tally: {hasShowPure:boolean}, penalty:number): string {
+      if (!tally.hasShowPure) return `No ${rules.showLength}-card pure: ${penalty} applied`;
       return 'OK';
     }
   }
@@ -677,38 +1685,43 @@ export class BucaroGame {
 
 //#endregion
 
-//#region Combination Helper
-
-function kCombinationsIncluding<T>(arr: T[], kMin: number, kMax: number, mustInclude: T): T[][] {
-  const res: T[][] = [];
-  const idxMap = new Map<T, number[]>();
-  arr.forEach((v,i)=>{
-    const list = idxMap.get(v) || [];
-    list.push(i);
-    idxMap.set(v, list);
-  });
-
-  const indices = arr.map((_,i)=>i);
-  const mustIdx = indices.find(i=>arr[i]===mustInclude);
-  if (mustIdx===undefined) return res;
+//#region Snapshot Migrations
 
-  const choose = (start: number, k: number, chosen: number[]) => {
-    if (k===0) {
-      if (!chosen.includes(mustIdx)) return;
-      const combo = chosen.map(i=>arr[i]);
-      res.push(combo);
-      return;
-    }
-    for (let i=start; i<indices.length; i++) {
-      chosen.push(indices[i]);
-      choose(i+1, k-1, chosen);
-      chosen.pop();
-    }
-  };
-
-  for (let k=kMin;k<=kMax;k++) choose(0, k, []);
-  return res;
-}
+// v1 -> v2: melds gained jokerAssignments; derive them from the cards on the board
+registerSnapshotMigration(1, (s) => {
+  const config = s.config as { rules?: HouseRules } | undefined;
+  const rules = config?.rules ?? RULE_PRESETS.classic;
+  for (const board of s.teamBoards as TeamBoard[]) {
+    for (const m of board.melds) m.jokerAssignments = assignJokers(m.cards, m.type, rules) ?? [];
+  }
+  return { ...s, version: 2 };
+});
+
+// v2 -> v3: open-pile pickup obligation
+registerSnapshotMigration(2, (s) => ({ ...s, version: 3, pendingPickup: null }));
+
+// v3 -> v4: staged turns (anything placed before the upgrade counts as committed)
+registerSnapshotMigration(3, (s) => ({ ...s, version: 4, turnBase: null, staged: [] }));
+
+// v4 -> v5: closed-pile exhaustion (older games always ended on exhaustion)
+registerSnapshotMigration(4, (s) => {
+  const config = s.config as { rules?: Partial<HouseRules> } | undefined;
+  const showsToEnd = config?.rules?.showsToEnd ?? RULE_PRESETS.classic.showsToEnd;
+  const endReason: EndReason | null = s.status !== 'ENDED' ? null
+    : Number(s.showsDone) >= showsToEnd ? 'SHOWS' : 'CLOSED_PILE_EXHAUSTED';
+  const rules = config?.rules && { ...config.rules, onClosedExhausted: 'end', maxReshuffles: RULE_PRESETS.classic.maxReshuffles };
+  return { ...s, version: 5, config: { ...config, rules }, reshuffles: 0, endReason };
+});
+
+// v5 -> v6: melds record who placed them; unknown for melds already on the board
+registerSnapshotMigration(5, (s) => {
+  const turnBase = s.turnBase as { board: TeamBoard } | null;
+  const boards: TeamBoard[] = [...s.teamBoards as TeamBoard[], ...(turnBase ? [turnBase.board] : [])];
+  for (const board of boards) {
+    for (const m of board.melds) m.placedBy ??= null;
+  }
+  return { ...s, version: 6 };
+});
 
 //#endregion
 
@@ -0,0 +1,210 @@
+/*
+Bucaro Match – a series of BucaroGame rounds played by the same four seats.
+
+- Seats/teams are fixed for the whole match (join order, like BucaroGame).
+- The dealer rotates one seat to the left every round.
+- Each round's FinalScoreSummary is kept; team totals accumulate.
+- The match ends when a team reaches targetScore (and leads outright) or when
+  maxRounds rounds have been played, whichever comes first. A team can also
+  forfeit (e.g. the server's timeout policy), which ends it at once.
+- Round seeds derive from the match seed, so a whole match is reproducible.
+
+Exported API (high-level)
+-------------------------
+- class BucaroMatch
+  - constructor(config?: MatchConfigInput)
+  - addPlayer(id: string, name: string): void
+  - startNextRound(): BucaroGame
+  - completeRound(): RoundResult        (current game must be ENDED)
+  - forfeit(teamId: number): void       (the other team wins)
+  - game: BucaroGame | null             (current round)
+  - getSummary(): MatchSummary
+  - toSnapshot() / static fromSnapshot()
+*/
+
+import { BucaroGame, SetupError, type FinalScoreSummary, type GameConfigInput, type GameSnapshot } from './BucaroGame';
+import { randomSeed } from './rng';
+
+//#region Types
+
+export interface MatchConfig {
+  rngSeed: string;
+  targetScore: number | null;  // null: play maxRounds
+  maxRounds: number | null;    // null: play to targetScore
+  game: Omit<GameConfigInput, 'rngSeed' | 'dealerIndex'>;
+}
+
+export interface MatchConfigInput {
+  rngSeed?: string;
+  targetScore?: number | null;
+  maxRounds?: number | null;
+  game?: Omit<GameConfigInput, 'rngSeed' | 'dealerIndex'>;
+}
+
+export interface RoundResult {
+  round: number;        // 1-based
+  dealerIndex: number;
+  scores: FinalScoreSummary;
+  totalsAfter: [number, number];
+}
+
+export interface MatchSummary {
+  status: 'LOBBY' | 'IN_ROUND' | 'BETWEEN_ROUNDS' | 'ENDED';
+  round: number;        // rounds started so far
+  targetScore: number | null;
+  maxRounds: number | null;
+  totals: [number, number];
+  rounds: RoundResult[];
+  winnerTeam: number | null; // set when ENDED; null on a drawn match
+  forfeitTeam: number | null; // team that forfeited, if that is how it ended
+}
+
+export interface MatchSnapshot {
+  version: 1;
+  config: MatchConfig;
+  players: Array<{ id: string; name: string }>;
+  rounds: RoundResult[];
+  totals: [number, number];
+  status: MatchSummary['status'];
+  winnerTeam: number | null;
+  forfeitTeam?: number | null; // absent in snapshots taken before forfeits existed
+  game: GameSnapshot | null;
+}
+
+//#endregion
+
+const DEFAULT_TARGET_SCORE = 2000;
+
+export class BucaroMatch {
+  private config: MatchConfig;
+  private players: Array<{ id: string; name: string }> = [];
+  private rounds: RoundResult[] = [];
+  private totals: [number, number] = [0, 0];
+  private status: MatchSummary['status'] = 'LOBBY';
+  private winnerTeam: number | null = null;
+  private forfeitTeam: number | null = null;
+  private current: BucaroGame | null = null;
+
+  constructor(config: MatchConfigInput = {}) {
+    const targetScore = config.targetScore === undefined && config.maxRounds == null
+      ? DEFAULT_TARGET_SCORE
+      : config.targetScore ?? null;
+    const maxRounds = config.maxRounds ?? null;
+    if (targetScore !== null && (!Number.isInteger(targetScore) || targetScore <= 0)) {
+      throw new SetupError('INVALID_CONFIG', 'targetScore must be a positive integer');
+    }
+    if (maxRounds !== null && (!Number.isInteger(maxRounds) || maxRounds <= 0)) {
+      throw new SetupError('INVALID_CONFIG', 'maxRounds must be a positive integer');
+    }
+    if (targetScore === null && maxRounds === null) throw new SetupError('INVALID_CONFIG', 'Match needs a targetScore or maxRounds');
+    this.config = { rngSeed: config.rngSeed ?? randomSeed(), targetScore, maxRounds, game: { ...config.game } };
+    // Fail fast on bad house rules rather than at the first round
+    new BucaroGame(this.config.game);
+  }
+
+  /** Current round's game (null before the first round). */
+  get game(): BucaroGame | null { return this.current; }
+
+  addPlayer(id: string, name: string) {
+    if (this.status !== 'LOBBY') throw new SetupError('ALREADY_STARTED', 'Cannot join after match start');
+    if (this.players.length >= 4) throw new SetupError('LOBBY_FULL', 'Lobby full');
+    this.players.push({ id, name });
+  }
+
+  startNextRound(): BucaroGame {
+    if (this.status === 'IN_ROUND') throw new SetupError('ROUND_IN_PROGRESS', 'Round already in progress');
+    if (this.status === 'ENDED') throw new SetupError('MATCH_OVER', 'Match is over');
+    if (this.players.length !== 4) throw new SetupError('NEED_FOUR_PLAYERS', 'Need 4 players');
+
+    const round = this.rounds.length + 1;
+    const game = new BucaroGame({
+      ...this.config.game,
+      rngSeed: `${this.config.rngSeed}#${round}`,
+      dealerIndex: (round - 1) % 4,
+    });
+    for (const p of this.players) game.addPlayer(p.id, p.name);
+    game.startGame();
+    this.current = game;
+    this.status = 'IN_ROUND';
+    return game;
+  }
+
+  /** Score the finished current game and decide whether the match is over. */
+  completeRound(): RoundResult {
+    if (this.status !== 'IN_ROUND' || !this.current) throw new SetupError('NO_ROUND_IN_PROGRESS', 'No round in progress');
+    const scores = this.current.computeFinalScores(); // throws if not ENDED
+
+    this.totals = [this.totals[0] + scores.teamScores[0], this.totals[1] + scores.teamScores[1]];
+    const result: RoundResult = {
+      round: this.rounds.length + 1,
+      dealerIndex: this.current.getPublicState().dealerIndex,
+      scores,
+      totalsAfter: [...this.totals] as [number, number],
+    };
+    this.rounds.push(result);
+
+    const [a, b] = this.totals;
+    const target = this.config.targetScore;
+    const leader = a === b ? null : (a > b ? 0 : 1);
+    const targetHit = target !== null && Math.max(a, b) >= target && leader !== null;
+    const roundsHit = this.config.maxRounds !== null && this.rounds.length >= this.config.maxRounds;
+    if (targetHit || roundsHit) {
+      this.status = 'ENDED';
+      this.winnerTeam = leader;
+    } else {
+      this.status = 'BETWEEN_ROUNDS';
+    }
+    return result;
+  }
+
+  /** End the match now with `teamId` losing; an unfinished round is not scored. */
+  forfeit(teamId: number) {
+    if (this.status === 'LOBBY') throw new SetupError('NO_ROUND_IN_PROGRESS', 'Match has not started');
+    if (this.status === 'ENDED') throw new SetupError('MATCH_OVER', 'Match is over');
+    if (teamId !== 0 && teamId !== 1) throw new SetupError('INVALID_CONFIG', 'teamId must be 0 or 1');
+    this.status = 'ENDED';
+    this.forfeitTeam = teamId;
+    this.winnerTeam = 1 - teamId;
+  }
+
+  getSummary(): MatchSummary {
+    return JSON.parse(JSON.stringify({
+      status: this.status,
+      round: this.rounds.length + (this.status === 'IN_ROUND' ? 1 : 0),
+      targetScore: this.config.targetScore,
+      maxRounds: this.config.maxRounds,
+      totals: this.totals,
+      rounds: this.rounds,
+      winnerTeam: this.winnerTeam,
+      forfeitTeam: this.forfeitTeam,
+    }));
+  }
+
+  toSnapshot(): MatchSnapshot {
+    return JSON.parse(JSON.stringify({
+      version: 1,
+      config: this.config,
+      players: this.players,
+      rounds: this.rounds,
+      totals: this.totals,
+      status: this.status,
+      winnerTeam: this.winnerTeam,
+      forfeitTeam: this.forfeitTeam,
+      game: this.current ? this.current.toSnapshot() : null,
+    }));
+  }
+
+  static fromSnapshot(raw: MatchSnapshot): BucaroMatch {
+    if (!raw || raw.version !== 1) throw new Error('Unsupported match snapshot version');
+    const s: MatchSnapshot = JSON.parse(JSON.stringify(raw));
+    const m = new BucaroMatch(s.config);
+    m.players = s.players;
+    m.rounds = s.rounds;
+    m.totals = s.totals;
+    m.status = s.status;
+    m.winnerTeam = s.winnerTeam;
+    m.forfeitTeam = s.forfeitTeam ?? null;
+    m.current = s.game ? BucaroGame.fromSnapshot(s.game) : null;
+    return m;
+  }
+}
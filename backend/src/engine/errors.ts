@@ -0,0 +1,98 @@
+/*
+Structured rule errors for the Bucaro engine.
+
+Every rule violation the engine reports is a BucaroRuleError carrying:
+- code:    a stable, machine-readable identifier (never reworded)
+- message: the human-readable text (may be reworded freely)
+- details: structured context such as the offending card ids or meld id
+
+Subclasses group the codes by what went wrong so callers can branch on
+`instanceof` (e.g. TurnError) or on `code`. toJSON() gives the wire format.
+*/
+
+export type TurnErrorCode =
+  | 'UNKNOWN_PLAYER'
+  | 'GAME_NOT_ACTIVE'
+  | 'NOT_YOUR_TURN'
+  | 'ALREADY_DREW'
+  | 'MUST_DRAW_FIRST'
+  | 'PICKUP_NOT_MELDED'
+  | 'NO_PICKUP_TO_RETURN'
+  | 'PICKUP_LOCKED'
+  | 'NOTHING_TO_UNDO'
+  | 'INVALID_STAGE_ORDER';
+
+export type PileErrorCode =
+  | 'CLOSED_PILE_EMPTY'
+  | 'OPEN_PILE_EMPTY'
+  | 'OPEN_TOP_NOT_PLACEABLE'
+  | 'SHOW_STACK_TAKEN';
+
+export type MeldErrorCode =
+  | 'INVALID_MELD'
+  | 'TEAM_PURE_REQUIRED'
+  | 'MELD_NOT_FOUND'
+  | 'INVALID_ADDITION'
+  | 'INVALID_JOKER_POSITION'
+  | 'JOKER_SWAP_MISMATCH'
+  | 'PICKUP_JOKER_NOT_PURE'
+  | 'SHOW_REQUIRES_PURE'
+  | 'SHOW_MUST_LEAVE_ONE';
+
+export type CardErrorCode =
+  | 'CARD_NOT_IN_HAND'
+  | 'DUPLICATE_CARD'
+  | 'JOKER_ON_JOKER';
+
+export type SetupErrorCode =
+  | 'LOBBY_FULL'
+  | 'ALREADY_STARTED'
+  | 'NEED_FOUR_PLAYERS'
+  | 'GAME_NOT_ENDED'
+  | 'ROUND_IN_PROGRESS'
+  | 'NO_ROUND_IN_PROGRESS'
+  | 'MATCH_OVER'
+  | 'INVALID_CONFIG';
+
+export type RuleErrorCode = TurnErrorCode | PileErrorCode | MeldErrorCode | CardErrorCode | SetupErrorCode;
+
+export interface RuleErrorDetails {
+  playerId?: string;
+  cardIds?: string[];
+  meldId?: string;
+  meldIndex?: number;   // position in the submitted payload
+  [key: string]: unknown;
+}
+
+/** Wire format sent to clients. */
+export interface RuleErrorPayload {
+  code: RuleErrorCode;
+  message: string;
+  details: RuleErrorDetails;
+}
+
+export class BucaroRuleError<C extends RuleErrorCode = RuleErrorCode> extends Error {
+  constructor(readonly code: C, message: string, readonly details: RuleErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): RuleErrorPayload {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+/** Acting out of turn, or out of order within a turn. */
+export class TurnError extends BucaroRuleError<TurnErrorCode> {}
+
+/** Drawing from a pile that cannot be drawn from. */
+export class PileError extends BucaroRuleError<PileErrorCode> {}
+
+/** A meld, addition or Show that breaks the meld rules. */
+export class MeldError extends BucaroRuleError<MeldErrorCode> {}
+
+/** A specific card cannot be used this way. */
+export class CardError extends BucaroRuleError<CardErrorCode> {}
+
+/** Lobby, game-lifecycle and configuration problems. */
+export class SetupError extends BucaroRuleError<SetupErrorCode> {}
@@ -0,0 +1,72 @@
+/*
+Seeded pseudo-random generator for the Bucaro engine.
+
+All randomness in the engine (shuffling, card ids, meld ids) flows through an
+Rng instance so that two games created with the same GameConfig.rngSeed and
+fed the same actions end up in byte-identical states.
+
+- Seed strings are hashed with xmur3 into a 32-bit state.
+- The generator itself is mulberry32: tiny, fast, good enough for card games.
+- The whole generator state is a single number, so it can be saved/restored.
+*/
+
+export class Rng {
+  private s: number;
+
+  constructor(seed: string) {
+    this.s = hashSeed(seed);
+  }
+
+  /** Current internal state (32-bit unsigned). */
+  get state(): number { return this.s; }
+  set state(v: number) { this.s = v >>> 0; }
+
+  /** Float in [0, 1). */
+  next(): number {
+    this.s = (this.s + 0x6D2B79F5) >>> 0;
+    let t = this.s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [0, n). */
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  /** Deterministic id such as `c_k3j9x0aq`. */
+  id(prefix = 'id'): string {
+    let s = '';
+    for (let i = 0; i < 8; i++) s += ID_ALPHABET[this.int(ID_ALPHABET.length)];
+    return `${prefix}_${s}`;
+  }
+
+  shuffle<T>(arr: T[]): T[] {
+    const a = arr.slice();
+    for (let i = a.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [a[i], a[j]] = [a[j], a[i]];
+    }
+    return a;
+  }
+}
+
+const ID_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/** Fresh seed for games created without an explicit rngSeed. */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+}
+
+function hashSeed(seed: string): number {
+  // xmur3
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
@@ -0,0 +1,99 @@
+/*
+House rules for the Bucaro engine.
+
+Everything a table may want to vary lives in HouseRules. A game resolves its
+rules as: classic defaults <- named preset <- explicit overrides, and then
+validates the result (invalid combinations throw before any card is dealt).
+
+Presets
+-------
+- classic:    the rules described in the engine header (default)
+- relaxed:    aces play high or low, sequences may wrap (Q-K-A-2-3 style), 6-card show
+- highStakes: jokers are worth 25 in the tally, 300/150 melds, -400 for no show
+- noPrinted:  no printed jokers in the decks; only the 2s are wild
+
+When the closed pile runs out (onClosedExhausted), classic play ends the game;
+'reshuffle' turns the open pile, minus its top card, into a new closed pile, at
+most maxReshuffles times (after that the game ends as under 'end').
+*/
+
+import { SetupError } from './errors';
+
+export type AceMode = 'high' | 'low' | 'both';
+
+export type ClosedExhaustedMode = 'end' | 'reshuffle';
+
+export interface HouseRules {
+  jokerCardValue: number;        // tally value of a joker (printed or 2)
+  printedJokersPerDeck: number;  // printed jokers added to each of the two decks
+  aces: AceMode;                 // where an ace sits in a sequence
+  wraparound: boolean;           // K-A-2 style sequences allowed
+  showLength: number;            // cards needed in the pure sequence/set of a Show
+  showsToEnd: number;            // game ends after this many Shows (1 or 2)
+  noShowPenalty: number;         // points deducted from a team without a qualifying pure meld
+  pureMeldPoints: number;        // per SequencePure / SetPure
+  impureMeldPoints: number;      // per SequenceImpure / SetImpure / ThreeJokers
+  onClosedExhausted: ClosedExhaustedMode; // what happens when the closed pile is empty
+  maxReshuffles: number;         // reshuffles allowed per game under 'reshuffle'
+}
+
+export type RulePreset = 'classic' | 'relaxed' | 'highStakes' | 'noPrinted';
+
+const CLASSIC: HouseRules = {
+  jokerCardValue: 0,
+  printedJokersPerDeck: 2,
+  aces: 'high',
+  wraparound: false,
+  showLength: 7,
+  showsToEnd: 2,
+  noShowPenalty: 200,
+  pureMeldPoints: 200,
+  impureMeldPoints: 100,
+  onClosedExhausted: 'end',
+  maxReshuffles: 2,
+};
+
+export const RULE_PRESETS: Record<RulePreset, HouseRules> = {
+  classic: CLASSIC,
+  relaxed: { ...CLASSIC, aces: 'both', wraparound: true, showLength: 6 },
+  highStakes: { ...CLASSIC, jokerCardValue: 25, pureMeldPoints: 300, impureMeldPoints: 150, noShowPenalty: 400 },
+  noPrinted: { ...CLASSIC, printedJokersPerDeck: 0 },
+};
+
+export function resolveHouseRules(preset: RulePreset = 'classic', overrides: Partial<HouseRules> = {}): HouseRules {
+  // Own keys only, so inherited names (toString, constructor, __proto__) are rejected
+  const known = (o: object, key: string) => Object.prototype.hasOwnProperty.call(o, key);
+  if (!known(RULE_PRESETS, preset)) throw new SetupError('INVALID_CONFIG', `Unknown rule preset: ${preset}`);
+  const rules: HouseRules = { ...RULE_PRESETS[preset] };
+  const override = <K extends keyof HouseRules>(key: K, value: HouseRules[K] | undefined) => {
+    if (value !== undefined) rules[key] = value;
+  };
+  for (const key of Object.keys(overrides) as Array<keyof HouseRules>) {
+    if (!known(CLASSIC, key)) throw new SetupError('INVALID_CONFIG', `Unknown house rule: ${key}`);
+    override(key, overrides[key]);
+  }
+  validateHouseRules(rules);
+  return rules;
+}
+
+export function validateHouseRules(r: HouseRules) {
+  const int = (k: keyof HouseRules, min: number, max: number) => {
+    const v = r[k];
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < min || v > max) {
+      throw new SetupError('INVALID_CONFIG', `House rule ${k} must be an integer in ${min}..${max}`);
+    }
+  };
+  int('jokerCardValue', 0, 100);
+  int('printedJokersPerDeck', 0, 4);
+  int('showLength', 3, 13);
+  int('showsToEnd', 1, 2); // only one extra 13-card stack exists for Shows
+  int('noShowPenalty', 0, 10000);
+  int('pureMeldPoints', 0, 10000);
+  int('impureMeldPoints', 0, 10000);
+  int('maxReshuffles', 0, 20);
+  if (!['high', 'low', 'both'].includes(r.aces)) throw new SetupError('INVALID_CONFIG', 'House rule aces must be high, low or both');
+  if (typeof r.wraparound !== 'boolean') throw new SetupError('INVALID_CONFIG', 'House rule wraparound must be a boolean');
+  if (!['end', 'reshuffle'].includes(r.onClosedExhausted)) {
+    throw new SetupError('INVALID_CONFIG', 'House rule onClosedExhausted must be end or reshuffle');
+  }
+}
@@ -0,0 +1,80 @@
+/*
+Versioned snapshots of the complete BucaroGame state.
+
+BucaroGame.toSnapshot() produces a plain JSON-safe object tagged with
+SNAPSHOT_VERSION; BucaroGame.fromSnapshot() accepts any older version and runs
+it through the registered migrations first.
+
+Migrations
+----------
+A migration upgrades a snapshot from version N to N+1. Register one per step:
+
+  registerSnapshotMigration(1, (s) => ({ ...s, version: 2, newField: 0 }));
+
+Snapshots newer than SNAPSHOT_VERSION are rejected (written by a newer build).
+*/
+
+import type { ActionRecord, Card, EndReason, GameConfig, Player, StagedStep, TeamBoard, TurnCheckpoint } from './BucaroGame';
+
+export const SNAPSHOT_VERSION = 6;
+
+export interface GameSnapshot {
+  version: number;
+  config: GameConfig;
+  rngState: number;
+  players: Player[];
+  teamBoards: [TeamBoard, TeamBoard];
+  dealerIndex: number;
+  currentTurn: number;
+  deck: Card[];
+  closed: Card[];
+  open: Card[];
+  extraShowStack: Card[];
+  status: 'LOBBY' | 'ACTIVE' | 'ENDED';
+  showsDone: number;
+  reshuffles: number;
+  endReason: EndReason | null;
+  drewThisTurn: boolean;
+  placedThisTurn: boolean;
+  pendingPickup: Card | null;
+  turnBase: TurnCheckpoint | null;
+  staged: StagedStep[];
+  journal: ActionRecord[];
+}
+
+/** Upgrades a snapshot object by exactly one version; narrow the fields a step reads. */
+export type SnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+/** Any stored snapshot: an object that says which version it is. */
+type VersionedRecord = Record<string, unknown> & { version: number };
+
+const migrations = new Map<number, SnapshotMigration>();
+
+export function registerSnapshotMigration(fromVersion: number, migrate: SnapshotMigration) {
+  if (fromVersion >= SNAPSHOT_VERSION) throw new Error(`Cannot migrate from current/future version ${fromVersion}`);
+  migrations.set(fromVersion, migrate);
+}
+
+export function migrateSnapshot(raw: unknown): GameSnapshot {
+  if (!isVersioned(raw)) {
+    throw new Error('Invalid snapshot: missing version');
+  }
+  if (raw.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${raw.version} is newer than supported ${SNAPSHOT_VERSION}`);
+  }
+  let s = raw;
+  while (s.version < SNAPSHOT_VERSION) {
+    const step = migrations.get(s.version);
+    if (!step) throw new Error(`No snapshot migration from version ${s.version}`);
+    const next = step(s);
+    if (!isVersioned(next) || next.version !== s.version + 1) {
+      throw new Error(`Snapshot migration from version ${s.version} did not produce version ${s.version + 1}`);
+    }
+    s = next;
+  }
+  return s as unknown as GameSnapshot;
+}
+
+function isVersioned(v: unknown): v is VersionedRecord {
+  return typeof v === 'object' && v !== null && typeof (v as { version?: unknown }).version === 'number';
+}
@@ -0,0 +1,217 @@
+/*
+Player profiles – lightweight local accounts that carry a rating and stats from
+one game to the next.
+
+A profile is a display name plus a secret token `<profileId>.<secret>`; only a
+SHA-256 of the secret is stored. Players send the token with joinRoom and their
+seat is linked to the profile for as long as they hold it.
+
+Ratings are Elo over teams. A team's rating is the mean of its two players, so
+the partner counts as much as the player. After every scored round each rated
+player moves by K * (S - E):
+
+  S = 1 / 0.5 / 0 for a won / drawn / lost round (by the round's team scores)
+  E = 1 / (1 + 10^((opponents' rating - team rating) / 400))
+
+Both partners move by the same amount. Bots and anonymous players take part with
+a fixed rating (the caller decides it) but have no profile to update.
+
+Stats per profile: games (scored rounds), wins, losses, draws, shows made and
+the sum of the team's round scores (averageScore = totalScore / games).
+
+- MemoryProfileStore: profiles live as long as the process (the default).
+- FileProfileStore:   every profile in one JSON file, rewritten through a temp
+                      file and a rename so a crash never leaves half a file.
+
+createProfileStore() picks FileProfileStore when PROFILE_STORE_FILE is set.
+*/
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { LeaderboardEntry, PlayerProfile, PlayerStats, RatingChange } from './protocol';
+
+export const DEFAULT_RATING = 1500;
+export const RATING_K = Number(process.env.RATING_K ?? 32);
+
+export interface StoredProfile {
+  id: string;
+  name: string;
+  secretHash: string;   // sha256 (hex) of the token's secret part
+  createdAt: number;    // epoch ms
+  lastPlayedAt: number | null;
+  rating: number;
+  stats: PlayerStats;
+}
+
+//#region Stores
+
+export interface ProfileStore {
+  loadAll(): StoredProfile[];
+  save(profile: StoredProfile): void;
+}
+
+export class MemoryProfileStore implements ProfileStore {
+  private readonly profiles = new Map<string, StoredProfile>();
+
+  loadAll(): StoredProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  save(profile: StoredProfile): void {
+    this.profiles.set(profile.id, profile);
+  }
+}
+
+export class FileProfileStore implements ProfileStore {
+  private readonly profiles = new Map<string, StoredProfile>();
+
+  constructor(readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (!fs.existsSync(file)) return;
+    const list: StoredProfile[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const p of list) this.profiles.set(p.id, p);
+  }
+
+  loadAll(): StoredProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  save(profile: StoredProfile): void {
+    this.profiles.set(profile.id, profile);
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify([...this.profiles.values()]));
+    fs.renameSync(tmp, this.file);
+  }
+}
+
+export function createProfileStore(): ProfileStore {
+  const file = process.env.PROFILE_STORE_FILE;
+  return file ? new FileProfileStore(file) : new MemoryProfileStore();
+}
+
+//#endregion
+
+//#region Ratings
+
+/** Chance that a team rated `team` beats one rated `opponents`. */
+export function expectedScore(team: number, opponents: number): number {
+  return 1 / (1 + 10 ** ((opponents - team) / 400));
+}
+
+/** One seat in a scored round; `rating` is used for unrated seats (bots, anonymous players). */
+export interface RoundParticipant {
+  playerId: string;
+  teamId: number;
+  profileId?: string;
+  rating: number;
+  shows: number;        // shows this seat made in the round
+}
+
+//#endregion
+
+//#region Registry
+
+export class ProfileRegistry {
+  private readonly byId = new Map<string, StoredProfile>();
+
+  constructor(private readonly store: ProfileStore) {
+    for (const p of store.loadAll()) this.byId.set(p.id, p);
+  }
+
+  /** A new profile and its token; the token is shown only this once. */
+  create(name: string): { profile: PlayerProfile; token: string } {
+    const secret = randomBytes(24).toString('base64url');
+    const profile: StoredProfile = {
+      id: randomUUID(),
+      name,
+      secretHash: hashSecret(secret),
+      createdAt: Date.now(),
+      lastPlayedAt: null,
+      rating: DEFAULT_RATING,
+      stats: { games: 0, wins: 0, losses: 0, draws: 0, shows: 0, totalScore: 0 },
+    };
+    this.byId.set(profile.id, profile);
+    this.store.save(profile);
+    return { profile: toPlayerProfile(profile), token: `${profile.id}.${secret}` };
+  }
+
+  get(id: string): StoredProfile | undefined {
+    return this.byId.get(id);
+  }
+
+  /** The profile a token belongs to; undefined for malformed or wrong tokens. */
+  authenticate(token: unknown): StoredProfile | undefined {
+    if (typeof token !== 'string') return undefined;
+    const dot = token.indexOf('.');
+    const profile = dot > 0 ? this.byId.get(token.slice(0, dot)) : undefined;
+    if (!profile) return undefined;
+    const given = Buffer.from(hashSecret(token.slice(dot + 1)), 'hex');
+    const expected = Buffer.from(profile.secretHash, 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected) ? profile : undefined;
+  }
+
+  /** Rate a scored round and update each linked profile's stats; returns the rating changes. */
+  recordRound(participants: RoundParticipant[], teamScores: [number, number]): RatingChange[] {
+    const teamRating = [0, 1].map(t => {
+      const team = participants.filter(p => p.teamId === t);
+      return team.reduce((sum, p) => sum + this.ratingOf(p), 0) / Math.max(1, team.length);
+    });
+    const [a, b] = teamScores;
+    const now = Date.now();
+    const changes: RatingChange[] = [];
+    for (const p of participants) {
+      const profile = p.profileId ? this.byId.get(p.profileId) : undefined;
+      if (!profile) continue;
+      const own = teamScores[p.teamId];
+      const other = teamScores[1 - p.teamId];
+      const actual = a === b ? 0.5 : own > other ? 1 : 0;
+      const before = profile.rating;
+      profile.rating = before + RATING_K * (actual - expectedScore(teamRating[p.teamId], teamRating[1 - p.teamId]));
+      const s = profile.stats;
+      s.games += 1;
+      if (actual === 1) s.wins += 1;
+      else if (actual === 0) s.losses += 1;
+      else s.draws += 1;
+      s.shows += p.shows;
+      s.totalScore += own;
+      profile.lastPlayedAt = now;
+      this.store.save(profile);
+      changes.push({ playerId: p.playerId, profileId: profile.id, before: Math.round(before), after: Math.round(profile.rating) });
+    }
+    return changes;
+  }
+
+  /** Best ratings first, among profiles with at least `minGames` scored rounds. */
+  leaderboard(limit: number, minGames: number): LeaderboardEntry[] {
+    return [...this.byId.values()]
+      .filter(p => p.stats.games >= minGames)
+      .sort((x, y) => y.rating - x.rating || x.createdAt - y.createdAt)
+      .slice(0, limit)
+      .map((p, i) => ({ rank: i + 1, ...toPlayerProfile(p) }));
+  }
+
+  private ratingOf(p: RoundParticipant): number {
+    const profile = p.profileId ? this.byId.get(p.profileId) : undefined;
+    return profile ? profile.rating : p.rating;
+  }
+}
+
+/** What anyone may see of a profile: everything but the secret. */
+export function toPlayerProfile(p: StoredProfile): PlayerProfile {
+  return {
+    id: p.id,
+    name: p.name,
+    rating: Math.round(p.rating),
+    createdAt: p.createdAt,
+    lastPlayedAt: p.lastPlayedAt,
+    stats: { ...p.stats },
+    averageScore: p.stats.games ? Math.round((p.stats.totalScore / p.stats.games) * 10) / 10 : 0,
+  };
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+//#endregion
@@ -0,0 +1,513 @@
+/*
+Bucaro Online – wire protocol shared by the server and the web client.
+
+This file is the one event contract both sides compile against: server.ts types
+its Socket.IO server with it and the frontend imports it type-only
+(`import type { ... } from '../../backend/src/protocol'`). It therefore stays
+self-contained – types only, no imports, nothing the frontend's stricter
+compiler settings would reject.
+
+Engine types appear here as the JSON the client receives. server.ts sends
+engine values through these types, so a change on either side that breaks the
+wire shape fails the backend build.
+
+Requests and acknowledgements
+-----------------------------
+Every client-to-server event takes an optional last argument, an ack callback.
+The server answers it exactly once with
+
+  { ok: true, data }         the request succeeded; data is typed per event
+  { ok: false, error }       it failed; error is an ErrorPayload
+
+Actions that change the table answer with the state version they produced
+(ActionAck). The resulting state still arrives as a state/statePatch broadcast
+like everyone else's. Clients that send no ack get failures as errorMsg.
+
+Table actions
+-------------
+Every action that changes the table (startGame, draws, placements, discard,
+show, ...) carries ActionMeta: an actionId the client generates, unique per
+player, and expectedVersion, the state version the player was looking at
+(state.version, or lobby.version before the deal). The server runs a room's
+actions one at a time, in arrival order, and
+
+- answers a repeated actionId with the first attempt's result (the action is
+  not applied again; ActionAck.duplicate is set), so resending after a
+  reconnect is safe;
+- refuses an action whose expectedVersion is not the room's current version
+  (STALE_VERSION, details.version is the current one): something changed
+  since the player decided, e.g. a second click or a bot's move.
+*/
+
+//#region Cards, melds and views (engine shapes)
+
+export type Suit = 'S' | 'H' | 'D' | 'C' | 'JOKER';
+
+export interface Card {
+  suit: Suit;
+  rank: number;     // 1..13 for A..K; 0 for a printed joker (2s are wild too)
+  id: string;
+}
+
+export type MeldType = 'SequencePure' | 'SequenceImpure' | 'SetPure' | 'SetImpure' | 'ThreeJokers';
+
+export interface JokerAssignment {
+  jokerId: string;
+  rank: number;
+  suit: Suit | null;  // null for sets
+}
+
+export interface Meld {
+  id: string;
+  type: MeldType;
+  cards: Card[];
+  jokerAssignments: JokerAssignment[];
+  placedBy: string | null;
+}
+
+export interface TeamBoard {
+  teamId: number;
+  melds: Meld[];
+}
+
+export type RulePreset = 'classic' | 'relaxed' | 'highStakes' | 'noPrinted';
+
+export interface HouseRules {
+  jokerCardValue: number;
+  printedJokersPerDeck: number;
+  aces: 'high' | 'low' | 'both';
+  wraparound: boolean;
+  showLength: number;
+  showsToEnd: number;
+  noShowPenalty: number;
+  pureMeldPoints: number;
+  impureMeldPoints: number;
+  onClosedExhausted: 'end' | 'reshuffle';
+  maxReshuffles: number;
+}
+
+export type EndReason = 'SHOWS' | 'CLOSED_PILE_EXHAUSTED' | 'NO_CARDS_TO_RESHUFFLE';
+
+/** Turn/match clock of a timed table. All times in ms. */
+export interface ClockView {
+  seat: number;
+  turnEndsAt: number;
+  turnRemainingMs: number;
+  matchRemainingMs: Array<number | null>;
+  timeouts: number[];
+}
+
+export interface StagingInfo {
+  playerId: string;
+  teamId: number;
+  steps: number;
+  meldIds: string[];
+  cardIds: string[];
+}
+
+export interface PublicState {
+  status: 'LOBBY' | 'ACTIVE' | 'ENDED';
+  currentTurn: number;
+  dealerIndex: number;
+  openTop: Card | null;
+  openCount: number;
+  closedCount: number;
+  showsDone: number;
+  reshuffles: number;
+  endReason: EndReason | null;
+  teamPurePresent: [boolean, boolean];
+  pendingPickup: Card | null;
+  staging: StagingInfo | null;
+  rulePreset: RulePreset;
+  rules: HouseRules;
+  clock?: ClockView;
+}
+
+export interface PlayerView extends PublicState {
+  you: { id: string; name: string; teamId: number; hand: Card[] };
+  partner: { id: string; name: string; cardCount: number };
+  opponents: Array<{ id: string; name: string; cardCount: number }>;
+  yourHand: Card[];
+  teamBoards: [TeamBoard, TeamBoard];
+}
+
+export interface SpectatedPlayer {
+  id: string;
+  name: string;
+  teamId: number;
+  cardCount: number;
+  hand?: Card[];   // only in a (delayed) coaching feed
+}
+
+export interface SpectatorView extends PublicState {
+  players: SpectatedPlayer[];
+  teamBoards: [TeamBoard, TeamBoard];
+  handsRevealed: boolean;
+}
+
+/** Full state as sent in a `state` message: the view plus the room's state version. */
+export type Versioned<T> = T & { version: number };
+
+export type TableState = Versioned<PlayerView> | Versioned<SpectatorView>;
+
+//#endregion
+
+//#region Action payloads and legal actions
+
+export interface MeldPayload {
+  cardIds: string[];
+  jokerRank?: number;
+}
+
+export interface MeldAdditionPayload {
+  meldId: string;
+  cardIds: string[];
+  jokerRank?: number;
+}
+
+export interface JokerSwapPayload {
+  meldId: string;
+  cardId: string;
+}
+
+export interface ShowPayload {
+  melds: MeldPayload[];
+}
+
+export interface ActionCheck {
+  allowed: boolean;
+  reason?: string;
+  code?: string;
+}
+
+export interface LegalActions {
+  playerId: string;
+  yourTurn: boolean;
+  drawClosed: ActionCheck;
+  drawOpen: ActionCheck;
+  returnOpen: ActionCheck;
+  mustMeld: string | null;
+  place: ActionCheck;
+  melds: Array<{ cardIds: string[]; type: MeldType; acceptedAlone: boolean }>;
+  additions: Array<{ cardId: string; meldIds: string[] }>;
+  discard: ActionCheck;
+  discardable: string[];
+  jokerSwaps: JokerSwapPayload[];
+  undo: ActionCheck;
+}
+
+//#endregion
+
+//#region Scores and match
+
+export interface CardScore {
+  card: Card;
+  value: number;
+}
+
+export interface MeldScoreLine {
+  meldId: string;
+  type: MeldType;
+  placedBy: string | null;
+  meldPoints: number;
+  cards: CardScore[];
+  cardPoints: number;
+  showQualifying: boolean;
+}
+
+export interface HandScoreLine {
+  playerId: string;
+  cards: CardScore[];
+  value: number;
+  transferredTo: number | null;
+}
+
+export interface FinalScoreSummary {
+  teamScores: [number, number];
+  endReason: EndReason;
+  details: Array<{
+    teamId: number;
+    meldPoints: number;
+    cardPoints: number;
+    penalty: number;
+    inHandGainsFromOpp: number;
+    comment: string;
+    melds: MeldScoreLine[];
+    hands: HandScoreLine[];
+    transferIn: CardScore[];
+  }>;
+}
+
+export interface RoundResult {
+  round: number;
+  dealerIndex: number;
+  scores: FinalScoreSummary;
+  totalsAfter: [number, number];
+}
+
+export interface MatchSummary {
+  status: 'LOBBY' | 'IN_ROUND' | 'BETWEEN_ROUNDS' | 'ENDED';
+  round: number;
+  targetScore: number | null;
+  maxRounds: number | null;
+  totals: [number, number];
+  rounds: RoundResult[];
+  winnerTeam: number | null;
+  forfeitTeam: number | null;
+}
+
+/** Unversioned `state` message: a round just ended (results) or the match did (forfeit). */
+export interface RoundEndMessage {
+  results?: FinalScoreSummary;
+  match: MatchSummary;
+  ratings?: RatingChange[];  // with results: how the round moved each rated player
+}
+
+//#endregion
+
+//#region Rooms, lobby and chat
+
+export type RoomStatus = 'LOBBY' | 'ACTIVE' | 'ENDED';
+
+export type BotDifficulty = 'easy' | 'strong';
+
+/** Spectators see every hand, but only delayMs after the fact. */
+export interface CoachingMode {
+  enabled: boolean;
+  delayMs: number;
+}
+
+export interface LobbySeat {
+  seat: number;
+  teamId: number;
+  name?: string;
+  playerId?: string;
+  connected: boolean;
+  ready: boolean;
+  bot?: BotDifficulty;
+  profileId?: string;       // rated seats: the linked profile
+  rating?: number;
+}
+
+export interface LobbySummary {
+  roomId: string;
+  status: RoomStatus;
+  hostId?: string;
+  seats: LobbySeat[];
+  allReady: boolean;        // four seats filled and ready: the host may start
+  spectators: number;
+  coaching: CoachingMode;
+  spectatorChat: boolean;   // spectators may post on the room channel
+  version: number;          // the room's state version; expectedVersion for startGame
+}
+
+export type ChatChannel = 'room' | 'team';
+
+export type Emote = 'gg' | 'wp' | 'nice' | 'oops' | 'thinking' | 'hurry' | 'thanks' | 'wow';
+
+export interface ChatMessage {
+  id: string;
+  channel: ChatChannel;
+  teamId: number | null;    // team channel only
+  from: { playerId: string | null; name: string; seat: number | null; spectator: boolean };
+  kind: 'text' | 'emote';
+  text: string;             // message text, or the emote id
+  at: number;               // epoch ms
+}
+
+export type RoomCloseReason = 'idle' | 'ended' | 'max-age' | 'deleted';
+
+export type TimeoutEscalation = 'autoplay' | 'bot' | 'forfeit';
+
+/** Body of POST /rooms; every field is optional. */
+export interface CreateRoomBody {
+  preset?: RulePreset;
+  rules?: Partial<HouseRules>;   // overrides the preset's
+  targetScore?: number | null;
+  maxRounds?: number | null;
+  clock?: {
+    turnMs?: number | null;
+    matchMs?: number | null;
+    maxTimeouts?: number;
+    onMaxTimeouts?: TimeoutEscalation;
+  };
+}
+
+//#endregion
+
+//#region Profiles and ratings
+
+export interface PlayerStats {
+  games: number;            // scored rounds played
+  wins: number;
+  losses: number;
+  draws: number;
+  shows: number;            // shows made
+  totalScore: number;       // sum of the team's round scores
+}
+
+/** A profile as anyone may see it (see profiles.ts). */
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  rating: number;
+  createdAt: number;        // epoch ms
+  lastPlayedAt: number | null;
+  stats: PlayerStats;
+  averageScore: number;     // totalScore / games, one decimal
+}
+
+export interface LeaderboardEntry extends PlayerProfile {
+  rank: number;             // 1-based
+}
+
+export interface RatingChange {
+  playerId: string;
+  profileId: string;
+  before: number;
+  after: number;
+}
+
+//#endregion
+
+//#region Errors, patches and acks
+
+export type RoomErrorCode =
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'GAME_NOT_STARTED'
+  | 'ALREADY_STARTED'
+  | 'NEED_FOUR_PLAYERS'
+  | 'NOT_HOST'
+  | 'NOT_SEATED'
+  | 'INVALID_SEAT'
+  | 'SEAT_TAKEN'
+  | 'LOBBY_ONLY'
+  | 'INVALID_BOT'
+  | 'INVALID_CLOCK'
+  | 'NOT_STOOD_IN'
+  | 'INVALID_COACHING'
+  | 'NOT_ALL_READY'
+  | 'PLAYER_NOT_FOUND'
+  | 'CANNOT_KICK_SELF'
+  | 'BAD_REQUEST'
+  | 'INVALID_TOKEN'
+  | 'INVALID_BODY'
+  | 'INVALID_QUERY'
+  | 'INVALID_CHANNEL'
+  | 'INVALID_EMOTE'
+  | 'CHAT_EMPTY'
+  | 'CHAT_TOO_LONG'
+  | 'CHAT_RATE_LIMITED'
+  | 'CHAT_NOT_ALLOWED'
+  | 'INVALID_ACTION'
+  | 'STALE_VERSION'
+  | 'INVALID_PROFILE'
+  | 'PROFILE_NOT_FOUND'
+  | 'PROFILE_IN_USE'
+  | 'INTERNAL';
+
+/** A failure: an engine rule code (see engine/errors.ts) or a RoomErrorCode, plus structured details. */
+export interface ErrorPayload {
+  code: string;
+  message: string;
+  details: { playerId?: string; cardIds?: string[]; meldId?: string; meldIndex?: number; [key: string]: unknown };
+}
+
+export type PatchPath = Array<string | number>;
+
+export type PatchOp =
+  | { op: 'set'; path: PatchPath; value: unknown }
+  | { op: 'del'; path: PatchPath };
+
+export interface StatePatch {
+  version: number;
+  baseVersion: number;
+  ops: PatchOp[];
+}
+
+export type AckResult<T> = { ok: true; data: T } | { ok: false; error: ErrorPayload };
+
+export type Ack<T = null> = (result: AckResult<T>) => void;
+
+/** Sent with every table action (see "Table actions" above). */
+export interface ActionMeta {
+  actionId: string;         // client-generated, unique per player; 1-64 characters
+  expectedVersion: number;
+}
+
+/** Answer to a request that changed the table: the state version it produced. */
+export interface ActionAck {
+  version: number;
+  duplicate?: boolean;      // this actionId was seen before; nothing was applied again
+}
+
+export interface JoinedInfo {
+  roomId: string;
+  playerId: string;
+  seat: number;
+  teamId: number;
+  status: RoomStatus;
+  token: string;            // send back with joinRoom to reclaim the seat
+}
+
+export interface SpectatingInfo {
+  roomId: string;
+  status: RoomStatus;
+  coaching: CoachingMode;
+}
+
+export type JoinResult = ({ role: 'player' } & JoinedInfo) | ({ role: 'spectator' } & SpectatingInfo);
+
+//#endregion
+
+//#region Events
+
+export interface ClientToServerEvents {
+  joinRoom: (payload: { roomId: string; name: string; token?: string; profileToken?: string; spectator?: boolean; seat?: number }, ack?: Ack<JoinResult>) => void;
+  chooseSeat: (payload: { seat: number }, ack?: Ack) => void;
+  swapSeats: (payload: { a: number; b: number }, ack?: Ack) => void;
+  setReady: (payload: { ready: boolean }, ack?: Ack) => void;
+  kick: (payload: { playerId: string }, ack?: Ack) => void;
+  transferHost: (payload: { playerId: string }, ack?: Ack) => void;
+  setCoaching: (payload: { enabled: boolean; delayMs?: number }, ack?: Ack) => void;
+  setSpectatorChat: (payload: { allowed: boolean }, ack?: Ack) => void;
+  chat: (payload: { channel: ChatChannel; text: string }, ack?: Ack<{ id: string }>) => void;
+  emote: (payload: { channel: ChatChannel; emote: Emote }, ack?: Ack<{ id: string }>) => void;
+  addBot: (payload: { seat?: number; difficulty?: BotDifficulty }, ack?: Ack<{ seat: number; playerId: string }>) => void;
+  removeBot: (payload: { seat: number }, ack?: Ack) => void;
+  startGame: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  nextRound: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  drawClosed: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  drawOpen: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  returnOpen: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  placeMelds: (payload: { melds: MeldPayload[] } & ActionMeta, ack?: Ack<ActionAck>) => void;
+  addToMeld: (payload: { additions: MeldAdditionPayload[] } & ActionMeta, ack?: Ack<ActionAck>) => void;
+  swapJoker: (payload: JokerSwapPayload & ActionMeta, ack?: Ack<ActionAck>) => void;
+  undoPlacement: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  reorderPlacements: (payload: { order: number[] } & ActionMeta, ack?: Ack<ActionAck>) => void;
+  discard: (payload: { cardId: string } & ActionMeta, ack?: Ack<ActionAck>) => void;
+  show: (payload: ShowPayload & ActionMeta, ack?: Ack<ActionAck>) => void;
+  resumeSeat: (payload: ActionMeta, ack?: Ack<ActionAck>) => void;
+  getState: (ack?: Ack<ActionAck>) => void;
+  resync: (ack?: Ack<ActionAck>) => void;
+  getLegalActions: (ack?: Ack<LegalActions>) => void;
+}
+
+export interface ServerToClientEvents {
+  joined: (info: JoinedInfo) => void;
+  spectating: (info: SpectatingInfo) => void;
+  presence: (info: { playerId: string; seat: number; name: string; online: boolean; graceEndsAt?: number }) => void;
+  kicked: (info: { roomId: string }) => void;
+  roomClosed: (info: { roomId: string; reason: RoomCloseReason }) => void;
+  lobby: (info: LobbySummary) => void;
+  state: (state: TableState | RoundEndMessage) => void;
+  statePatch: (patch: StatePatch) => void;
+  legalActions: (actions: LegalActions) => void;
+  chat: (message: ChatMessage) => void;
+  chatHistory: (info: { messages: ChatMessage[] }) => void;
+  errorMsg: (err: ErrorPayload) => void;
+  toast: (msg: string) => void;
+}
+
+//#endregion
@@ -6,9 +6,26 @@ What this provides
 ------------------
 - A complete Node/TypeScript Socket.IO server that hosts multiple "rooms" of Bucaro games.
 - Integrates the Phase 1 engine (see: Bucaro Game Engine – Phase 1) for rules & scoring.
-- Reconnection-safe (players can rejoin with their playerId).
-- Minimal REST to create a room; everything else over WebSocket.
+- Each room plays a BucaroMatch: rounds with a rotating dealer until a target score
+  or round count is reached.
+- Reconnection-safe: joining returns a signed session token (see session.ts) and
+  rejoining requires it. A dropped seat is held for a grace period
+  (RECONNECT_GRACE_MS) and then released; released or kicked seats cannot be
+  reclaimed with an old token.
+- REST for room management and read-only data (documented in openapi.json, served at
+  GET /openapi.json); all play happens over WebSocket.
 - Emits per-player state (hides other hands) after every action.
+- Spectators can watch any room (redacted view: no hands); the host may turn on a
+  delayed "see all hands" coaching feed for them.
+- Optional turn and match clocks per room; a timed-out turn is auto-played and
+  repeated timeouts escalate per the room's policy (see Turn clocks below).
+- Rooms are saved to a RoomStore (see store.ts) after every change and reloaded at
+  startup; set ROOM_STORE_DIR to keep them on disk (and SESSION_SECRET so issued
+  tokens stay valid across restarts). Idle, ended and very old rooms are closed
+  automatically (see Persistence & expiry below).
+- Optional player profiles (see profiles.ts): a display name plus a token, kept in
+  PROFILE_STORE_FILE. Seats joined with a profile are rated (team Elo, the partner
+  counts) and collect stats after every scored round; GET /leaderboard ranks them.
 
 Prereqs
 -------
@@ -21,16 +38,76 @@ Build & Run
 - tsc (or tsx/esbuild) then node dist/server.js
 - or ts-node src/server.ts
 
+REST API
+--------
+- GET    /health                  liveness + room count
+- POST   /rooms                   create a room (body: preset, rules, targetScore, maxRounds, clock)
+- GET    /rooms?status=           list rooms (status: LOBBY | ACTIVE | ENDED)
+- GET    /rooms/:id               lobby summary, match summary and the public (spectator) state
+- GET    /rooms/:id/results       per-round scores and match totals; final once the match ended
+- DELETE /rooms/:id               host only: Authorization: Bearer <session token from joined>
+- POST   /profiles                create a profile (body: name) -> { profile, token }; keep the token
+- GET    /profiles/:id            a profile's rating and stats
+- GET    /leaderboard?limit=&minGames=   profiles by rating (defaults: 20, 1)
+Errors are { error, code, message, details } with 400/401/403/404.
+
 Client Event Flow (high level)
 ------------------------------
-- connect → joinRoom({ roomId, name, playerId? })
-  -> server replies: joined({ roomId, playerId, seat, teamId, status }) + state snapshot
-- when 4 players are present, any player can call startGame()
-- on your turn call: drawClosed() or drawOpen()
-- optionally: placeMelds(melds) and/or addToMeld(additions)
+- connect → joinRoom({ roomId, name, token? })
+  -> server replies: joined({ roomId, playerId, seat, teamId, status, token }) + state snapshot;
+  keep the token and send it with joinRoom to reconnect to the same seat
+- add profileToken to joinRoom to play under a profile: the seat takes the profile's name
+  and the lobby shows its rating (a profile holds at most one seat per room)
+- presence({ playerId, seat, name, online, graceEndsAt? }) tells the room when a seat drops
+  and comes back; after graceEndsAt the seat is released (lobby: freed; in game: a bot plays it)
+- or joinRoom({ roomId, name, spectator: true }) to watch (works in full rooms)
+  -> spectating({ roomId, coaching }) + state as a SpectatorView (boards, card counts, no hands);
+  with coaching on, state carries every hand but arrives coaching.delayMs late
+- the host can setCoaching({ enabled, delayMs? })
+- chat({ channel: 'room' | 'team', text }) and emote({ channel, emote }) broadcast a chat(message);
+  'team' reaches only your partner. On joining you get chatHistory({ messages }) with what you
+  may see (team messages only if you were on that team when they were sent). Messages are
+  capped at CHAT_MAX_LENGTH and rate limited per connection. Spectators may only use 'room', and only once the host allows it with setSpectatorChat({ allowed })
+- joinRoom may ask for a seat ({ seat }); in the lobby chooseSeat({ seat }) moves you to an
+  empty or bot seat (seats 0/2 and 1/3 are partners)
+- setReady({ ready }) marks you ready; bots are always ready; any seat change clears it
+- the room host (the creator, i.e. first player to join) may addBot({ seat?, difficulty }) /
+  removeBot({ seat }) to fill empty seats, swapSeats({ a, b }), kick({ playerId }) and
+  transferHost({ playerId }); bots play their turns on the server after a short delay
+- when all 4 seats are filled and ready, the host calls startGame() (starts round 1)
+- a kicked player gets kicked({ roomId }) and is removed from the room
+- on your turn call: drawClosed() or drawOpen(); a card taken with drawOpen() must be melded
+  before discard/show, or handed back with returnOpen() (only before placing anything)
+- optionally: placeMelds(melds) and/or addToMeld(additions); swapJoker({ meldId, cardId })
+  trades a natural card for the joker standing in for it on your team's board
+- placements stay provisional (state.staging) until your discard/show commits them:
+  undoPlacement() takes back the last one, reorderPlacements({ order }) re-applies them in a new order
 - then: discard(cardId)
+- getLegalActions() at any time -> legalActions(...) for your seat
 - when ready to show: show({ melds })
-- server broadcasts fresh getPlayerState() to each seated player after every action
+- after every action the room's state version goes up by one and each seated player gets
+  either a full state (a getPlayerState() view plus `version`) or, when the server knows what
+  that connection already has, statePatch({ version, baseVersion, ops }) with only what
+  changed (see statePatch.ts). Apply a patch only if your version equals baseVersion;
+  otherwise call resync() for a full state. (state.clock on timed tables: whose turn, when
+  it times out, match time left.) state messages without a version are round summaries.
+- if your turn times out the server draws closed and discards for you; after
+  maxTimeouts in a row the room's policy applies ('autoplay' keeps doing that,
+  'bot' hands the seat to a bot until you resumeSeat(), 'forfeit' ends the match)
+- every table action (startGame, nextRound, draws, placements, discard, show, resumeSeat)
+  carries { actionId, expectedVersion } in its payload (see "Table actions" in protocol.ts).
+  A room's actions, bot turns and turn timeouts run one at a time through the room's
+  ActionQueue (see actionQueue.ts); a repeated actionId is answered with the first result
+  instead of being applied twice, and an expectedVersion other than the room's current
+  version is refused with STALE_VERSION
+- every event above takes an optional ack callback as its last argument; the server answers it
+  with { ok: true, data } or { ok: false, error: { code, message, details } } (see protocol.ts,
+  the event contract shared with the frontend). Without an ack, failures arrive as errorMsg.
+  Codes are stable (see engine/errors.ts for rule codes, RoomErrorCode in protocol.ts for
+  room/lobby codes)
+- when a round ends: state({ results, match, ratings }) is broadcast (ratings: how the round
+  moved each profile's rating); nextRound() deals the next one
+- roomClosed({ roomId, reason }) when the server expires the room; everyone is removed
 
 */
 
@@ -41,303 +118,1483 @@ import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
 
 // IMPORTANT: adjust import path to your Phase 1 engine file
-import { BucaroGame, type Card, type MeldPayload, type MeldAdditionPayload, type ShowPayload } from './engine/BucaroGame';
+import { BucaroGame, BucaroRuleError, CardError, type Card, type ClockView, type RuleErrorDetails } from './engine/BucaroGame';
+import { BucaroMatch, type MatchConfigInput, type MatchSnapshot } from './engine/BucaroMatch';
+import { newSessionId, signSessionToken, verifySessionToken } from './session';
+import { createRoomStore, type StoredRoom } from './store';
+import openApiSpec from './openapi.json';
+import { diffState } from './statePatch';
+import { ActionQueue } from './actionQueue';
+import { DEFAULT_RATING, ProfileRegistry, createProfileStore, toPlayerProfile, type RoundParticipant, type StoredProfile } from './profiles';
+import type {
+  Ack, AckResult, ActionAck, ActionMeta, ChatChannel, ChatMessage, ClientToServerEvents, CoachingMode, CreateRoomBody,
+  Emote, ErrorPayload, FinalScoreSummary, LobbySummary, RatingChange, RoomCloseReason, RoomErrorCode, ServerToClientEvents,
+  TimeoutEscalation,
+} from './protocol';
+import { BOT_DIFFICULTIES, BucaroBot, playTimeoutMove, type BotDifficulty } from './bots/BucaroBot';
 
-// ---------------- Types for network events ----------------
+// ---------------- Types for network events (see protocol.ts) ----------------
 
 type RoomId = string;
 
-type ClientToServerEvents = {
-  joinRoom: (payload: { roomId: RoomId; name: string; playerId?: string }) => void;
-  startGame: () => void;
-  drawClosed: () => void;
-  drawOpen: () => void;
-  placeMelds: (payload: { melds: MeldPayload[] }) => void;
-  addToMeld: (payload: { additions: MeldAdditionPayload[] }) => void;
-  discard: (payload: { cardId: string }) => void;
-  show: (payload: ShowPayload) => void;
-  getState: () => void;
-};
+type InterServerEvents = {};
 
-type ServerToClientEvents = {
-  joined: (info: { roomId: RoomId; playerId: string; seat: number; teamId: number; status: string }) => void;
-  state: (state: any) => void; // Player-specific view
-  lobby: (info: LobbySummary) => void;
-  errorMsg: (msg: string) => void;
-  toast: (msg: string) => void;
-};
+class RoomError extends Error {
+  constructor(readonly code: RoomErrorCode, message: string, readonly details: RuleErrorDetails = {}) {
+    super(message);
+  }
+}
 
-type InterServerEvents = {};
+function toErrorPayload(e: any): ErrorPayload {
+  if (e instanceof BucaroRuleError) return e.toJSON();
+  if (e instanceof RoomError) return { code: e.code, message: e.message, details: e.details };
+  return { code: 'INTERNAL', message: e?.message ?? String(e), details: {} };
+}
 
 type SocketData = {
   roomId?: RoomId;
   playerId?: string;
   seat?: number;
+  spectator?: boolean;
+  chatTimes?: number[]; // recent chat sends, for rate limiting
 };
 
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+function attempt<T>(run: () => T): AckResult<T> {
+  try {
+    return { ok: true, data: run() };
+  } catch (e: any) {
+    return { ok: false, error: toErrorPayload(e) };
+  }
+}
+
+/** Answer an ack; without one (older clients), failures still go out as errorMsg. */
+function reply<T>(socket: GameSocket, ack: Ack<T> | undefined, result: AckResult<T>) {
+  if (typeof ack === 'function') ack(result);
+  else if (!result.ok) socket.emit('errorMsg', result.error);
+}
+
+/** Run a request and answer its ack with { ok: true, data } or { ok: false, error }. */
+function respond<T>(socket: GameSocket, ack: Ack<T> | undefined, run: () => T) {
+  reply(socket, ack, attempt(run));
+}
+
 // ---------------- Room & Player tracking ----------------
 
 interface SeatedPlayer {
   playerId: string;
   name: string;
-  seat: number; // 0..3 by join order
+  seat: number; // 0..3; chosen at join/in the lobby, else first free
   teamId: number; // 0 or 1 (opposites are partners)
+  ready: boolean; // lobby ready check (bots are always ready)
   socketId?: string; // for connectivity tracking
+  bot?: BucaroBot; // server-driven seat; never has a socket
+  standIn?: boolean; // bot only covers for a timed-out human (see resumeSeat)
+  sessionId?: string; // current session (humans); rotating it revokes issued tokens
+  profileId?: string; // linked player profile: the seat is rated
+  graceTimer?: NodeJS.Timeout; // pending release after a disconnect
+  sent?: { version: number; view: object; socketId: string }; // base for this seat's next patch
+}
+
+interface Spectator {
+  socketId: string;
+  name: string;
 }
 
 interface Room {
   id: RoomId;
-  game: BucaroGame;
+  chat: ChatState;
+  match: BucaroMatch;
   players: SeatedPlayer[]; // seat index === position
+  spectators: Spectator[];
+  coaching: CoachingMode;
   status: 'LOBBY' | 'ACTIVE' | 'ENDED';
   createdAt: number;
+  lastActivityAt: number; // last saved change (see saveRoom)
+  version: number; // bumped by every emitStateToAll; clients patch from one version to the next
+  hostId?: string; // playerId of the room creator (first human to join), transferable
+  botTimer?: NodeJS.Timeout; // pending bot turn
+  clock: RoomClock;
+  actions: ActionQueue; // table actions, bot turns and timeouts, one at a time (not persisted)
 }
 
-interface LobbySummary {
-  roomId: string;
-  status: string;
-  seats: Array<{ seat: number; name?: string; playerId?: string; connected: boolean }>;
+const BOT_DELAY_MS = Number(process.env.BOT_DELAY_MS ?? 800);
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS ?? 60_000);
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MS ?? 12 * 60 * 60 * 1000);
+// A seated player can open a second connection as a spectator, so the coaching
+// feed must lag far enough behind that it says nothing about the hand in play.
+const MIN_COACHING_DELAY_MS = 120_000;
+const COACHING_DELAY_MS = Math.max(MIN_COACHING_DELAY_MS, Number(process.env.COACHING_DELAY_MS ?? 180_000));
+const ACTION_HISTORY_SIZE = Number(process.env.ACTION_HISTORY_SIZE ?? 256); // action ids remembered per room
+
+// ---------------- Turn clocks ----------------
+
+const TIMEOUT_ESCALATIONS: TimeoutEscalation[] = ['autoplay', 'bot', 'forfeit'];
+
+interface ClockConfig {
+  turnMs: number | null;   // per turn; null = no turn limit
+  matchMs: number | null;  // per-player bank for the whole match; null = none
+  maxTimeouts: number;     // consecutive timeouts before onMaxTimeouts applies
+  onMaxTimeouts: TimeoutEscalation;
+}
+
+interface RoomClock {
+  config: ClockConfig;
+  game?: BucaroGame;       // round of the turn being timed
+  round?: number;          // its number in the match
+  seat?: number;           // seat of the turn being timed
+  version: number;         // bumped whenever the clock stops; a timer acts only on the turn it was armed for
+  startedAt: number;
+  deadline: number;
+  banks: Array<number | null>; // match time left per seat
+  timeouts: number[];      // consecutive timeouts per seat
+  timedOut: boolean;       // current turn was ended by the clock
+  timer?: NodeJS.Timeout;  // pending timeout (human seats only)
+}
+
+const DEFAULT_CLOCK: ClockConfig = {
+  turnMs: process.env.TURN_TIMEOUT_MS ? Number(process.env.TURN_TIMEOUT_MS) : 90_000,
+  matchMs: process.env.MATCH_CLOCK_MS ? Number(process.env.MATCH_CLOCK_MS) : null,
+  maxTimeouts: Number(process.env.MAX_TIMEOUTS ?? 3),
+  onMaxTimeouts: (process.env.TIMEOUT_ESCALATION as TimeoutEscalation | undefined) ?? 'bot',
+};
+
+function parseClockConfig(input: Partial<ClockConfig> = {}): ClockConfig {
+  const c: ClockConfig = { ...DEFAULT_CLOCK, ...input };
+  const ms = (k: 'turnMs' | 'matchMs') => {
+    const v = c[k];
+    if (v !== null && (!Number.isInteger(v) || v < 1000)) {
+      throw new RoomError('INVALID_CLOCK', `${k} must be null or an integer of at least 1000`, { [k]: v });
+    }
+  };
+  ms('turnMs');
+  ms('matchMs');
+  if (!Number.isInteger(c.maxTimeouts) || c.maxTimeouts < 1) {
+    throw new RoomError('INVALID_CLOCK', 'maxTimeouts must be a positive integer', { maxTimeouts: c.maxTimeouts });
+  }
+  if (!TIMEOUT_ESCALATIONS.includes(c.onMaxTimeouts)) {
+    throw new RoomError('INVALID_CLOCK', `onMaxTimeouts must be one of ${TIMEOUT_ESCALATIONS.join(', ')}`, { onMaxTimeouts: c.onMaxTimeouts });
+  }
+  return c;
+}
+
+function newRoomClock(config: ClockConfig): RoomClock {
+  return {
+    config,
+    version: 0,
+    startedAt: 0,
+    deadline: 0,
+    banks: [0, 1, 2, 3].map(() => config.matchMs),
+    timeouts: [0, 0, 0, 0],
+    timedOut: false,
+  };
+}
+
+/** Start the clock for the turn in progress, or stop it when the turn has changed/ended. */
+function syncClock(io: Server, room: Room) {
+  const c = room.clock;
+  const game = room.match.game;
+  const pub = game?.getPublicState();
+  const active = !!game && room.status === 'ACTIVE' && pub?.status === 'ACTIVE';
+  if (active && c.game === game && c.seat === pub!.currentTurn) return; // same turn still running
+  stopClock(room);
+  if (!active || (c.config.turnMs === null && c.config.matchMs === null)) return;
+
+  const seat = pub!.currentTurn;
+  const now = Date.now();
+  c.game = game;
+  c.round = room.match.getSummary().round;
+  c.seat = seat;
+  c.startedAt = now;
+  c.timedOut = false;
+  c.deadline = now + Math.min(c.config.turnMs ?? Infinity, c.banks[seat] ?? Infinity);
+  // Bots move on their own timer; only humans are clocked
+  if (room.players.find(p => p.seat === seat)?.bot) return;
+  const turn: TimedTurn = { game: game!, round: c.round, seat, version: c.version };
+  c.timer = setTimeout(() => room.actions.run(() => onTurnTimeout(io, room, turn)), c.deadline - now);
+}
+
+/** Stop the running turn clock, charging its time to the seat's match bank. */
+function stopClock(room: Room) {
+  const c = room.clock;
+  if (c.seat === undefined) return;
+  if (c.timer) {
+    clearTimeout(c.timer);
+    c.timer = undefined;
+    const bank = c.banks[c.seat];
+    if (bank !== null) c.banks[c.seat] = Math.max(0, bank - (Date.now() - c.startedAt));
+  }
+  if (!c.timedOut) c.timeouts[c.seat] = 0;
+  c.version += 1;
+  c.game = undefined;
+  c.round = undefined;
+  c.seat = undefined;
+}
+
+function clockView(room: Room): ClockView | undefined {
+  const c = room.clock;
+  if (c.seat === undefined || !c.timer) return undefined;
+  const now = Date.now();
+  return {
+    seat: c.seat,
+    turnEndsAt: c.deadline,
+    turnRemainingMs: Math.max(0, c.deadline - now),
+    matchRemainingMs: c.banks.map((b, i) => (b !== null && i === c.seat ? Math.max(0, b - (now - c.startedAt)) : b)),
+    timeouts: [...c.timeouts],
+  };
+}
+
+/** The turn a timer was armed for. */
+interface TimedTurn {
+  game: BucaroGame;
+  round: number;
+  seat: number;
+  version: number;
+}
+
+function onTurnTimeout(io: Server, room: Room, turn: TimedTurn) {
+  const c = room.clock;
+  const game = room.match.game;
+  // Only act on the turn the timer was armed for
+  if (game !== turn.game || c.game !== turn.game || c.round !== turn.round || c.seat !== turn.seat || c.version !== turn.version) return;
+  c.timer = undefined;
+  const seated = room.players.find(p => p.seat === turn.seat);
+  if (!seated) return;
+  if (c.banks[turn.seat] !== null) c.banks[turn.seat] = Math.max(0, c.banks[turn.seat]! - (Date.now() - c.startedAt));
+  c.timedOut = true;
+  c.timeouts[turn.seat] += 1;
+
+  let moved = true;
+  try {
+    playTimeoutMove(game, seated.playerId);
+  } catch (e: any) {
+    console.error(`Timeout move for ${seated.name} in room ${room.id} failed: ${e.message}`);
+    moved = false;
+  }
+  io.to(room.id).emit('toast', `${seated.name} ran out of time`);
+
+  // A seat the server cannot move for goes straight to the next escalation step
+  const escalate = !moved || c.timeouts[turn.seat] >= c.config.maxTimeouts;
+  if (escalate && escalateTimeouts(io, room, seated)) return;
+  // Still the same turn: re-arm its clock (syncClock leaves a running turn alone)
+  if (!moved) stopClock(room);
+  finishRoundIfEnded(io, room, 'Round ended. Computing scores...');
+}
+
+/** Apply the room's policy after too many timeouts; true when it ended the match. */
+function escalateTimeouts(io: Server, room: Room, seated: SeatedPlayer): boolean {
+  switch (room.clock.config.onMaxTimeouts) {
+    case 'autoplay':
+      return false;
+    case 'bot':
+      if (!seated.bot) {
+        seated.bot = new BucaroBot(seated.playerId, 'easy', room.id);
+        seated.standIn = true;
+        io.to(room.id).emit('toast', `A bot is playing for ${seated.name} until they resume their seat`);
+      }
+      return false;
+    case 'forfeit':
+      room.match.forfeit(seated.teamId);
+      room.status = 'ENDED';
+      stopClock(room);
+      io.to(room.id).emit('toast', `${seated.name} timed out too often; team ${seated.teamId} forfeits`);
+      emitStateToAll(io, room);
+      io.to(room.id).emit('state', { match: room.match.getSummary() });
+      return true;
+  }
 }
 
 const rooms = new Map<RoomId, Room>();
 
+// ---------------- Persistence & expiry ----------------
+
+/** What the store keeps of a room: everything but sockets, spectators and timers. */
+interface RoomRecord extends StoredRoom {
+  status: Room['status'];
+  hostId?: string;
+  version?: number; // absent in records saved before versioned state
+  match: MatchSnapshot;
+  players: Array<{
+    playerId: string;
+    name: string;
+    seat: number;
+    teamId: number;
+    ready: boolean;
+    bot?: BotDifficulty;
+    standIn?: boolean;
+    sessionId?: string;
+    profileId?: string;
+  }>;
+  coaching: CoachingMode;
+  chat?: ChatState; // absent in records saved before chat existed
+  clock: { config: ClockConfig; banks: Array<number | null>; timeouts: number[] };
+}
+
+type RoomExpiry = Exclude<RoomCloseReason, 'deleted'>;
+
+const ROOM_IDLE_TTL_MS = Number(process.env.ROOM_IDLE_TTL_MS ?? 30 * 60 * 1000);
+const ENDED_ROOM_TTL_MS = Number(process.env.ENDED_ROOM_TTL_MS ?? 5 * 60 * 1000);
+const ROOM_MAX_AGE_MS = Number(process.env.ROOM_MAX_AGE_MS ?? 24 * 60 * 60 * 1000);
+const ROOM_SWEEP_MS = Number(process.env.ROOM_SWEEP_MS ?? 60_000);
+
+const roomStore = createRoomStore<RoomRecord>();
+
+function toRoomRecord(room: Room): RoomRecord {
+  return {
+    id: room.id,
+    status: room.status,
+    createdAt: room.createdAt,
+    lastActivityAt: room.lastActivityAt,
+    hostId: room.hostId,
+    version: room.version,
+    match: room.match.toSnapshot(),
+    players: room.players.map(p => ({
+      playerId: p.playerId,
+      name: p.name,
+      seat: p.seat,
+      teamId: p.teamId,
+      ready: p.ready,
+      bot: p.bot?.difficulty,
+      standIn: p.standIn,
+      sessionId: p.sessionId,
+      profileId: p.profileId,
+    })),
+    coaching: { ...room.coaching },
+    chat: { history: [...room.chat.history], spectatorsAllowed: room.chat.spectatorsAllowed },
+    clock: { config: room.clock.config, banks: [...room.clock.banks], timeouts: [...room.clock.timeouts] },
+  };
+}
+
+/** Rebuild a live room; every human starts offline and reconnects with their token. */
+function fromRoomRecord(rec: RoomRecord): Room {
+  const clock = newRoomClock(rec.clock.config);
+  clock.banks = [...rec.clock.banks];
+  clock.timeouts = [...rec.clock.timeouts];
+  return {
+    id: rec.id,
+    match: BucaroMatch.fromSnapshot(rec.match),
+    players: rec.players.map(p => ({
+      playerId: p.playerId,
+      name: p.name,
+      seat: p.seat,
+      teamId: p.teamId,
+      ready: p.ready,
+      bot: p.bot ? new BucaroBot(p.playerId, p.bot, rec.id) : undefined,
+      standIn: p.standIn,
+      sessionId: p.sessionId,
+      profileId: p.profileId,
+    })),
+    spectators: [],
+    coaching: { ...rec.coaching },
+    chat: rec.chat ? { history: [...rec.chat.history], spectatorsAllowed: rec.chat.spectatorsAllowed } : newChatState(),
+    status: rec.status,
+    createdAt: rec.createdAt,
+    lastActivityAt: rec.lastActivityAt,
+    version: rec.version ?? 0,
+    hostId: rec.hostId,
+    clock,
+    actions: new ActionQueue(ACTION_HISTORY_SIZE),
+  };
+}
+
+/**
+ * Record a change: bump lastActivityAt and write the room to the store. Every
+ * successful action ends in broadcastLobby or emitStateToAll, which call this.
+ */
+function saveRoom(room: Room) {
+  room.lastActivityAt = Date.now();
+  try {
+    roomStore.save(toRoomRecord(room));
+  } catch (e: any) {
+    console.error(`Saving room ${room.id} failed: ${e.message}`);
+  }
+}
+
+function roomExpiry(room: Pick<Room, 'status' | 'createdAt' | 'lastActivityAt'>, now = Date.now()): RoomExpiry | null {
+  if (now - room.createdAt >= ROOM_MAX_AGE_MS) return 'max-age';
+  if (room.status === 'ENDED' && now - room.lastActivityAt >= ENDED_ROOM_TTL_MS) return 'ended';
+  if (now - room.lastActivityAt >= ROOM_IDLE_TTL_MS) return 'idle';
+  return null;
+}
+
+/** Drop a room for good: stop its timers, tell everyone in it and forget it. */
+function closeRoom(io: Server, room: Room, reason: RoomCloseReason) {
+  clearTimeout(room.botTimer);
+  stopClock(room);
+  for (const p of room.players) clearTimeout(p.graceTimer);
+  io.to(room.id).emit('roomClosed', { roomId: room.id, reason });
+  for (const sock of io.sockets.sockets.values()) {
+    if (sock.data.roomId !== room.id) continue;
+    sock.leave(room.id);
+    sock.data = {};
+  }
+  rooms.delete(room.id);
+  roomStore.delete(room.id);
+}
+
+function sweepRooms(io: Server) {
+  const now = Date.now();
+  for (const room of [...rooms.values()]) {
+    const reason = roomExpiry(room, now);
+    if (reason) closeRoom(io, room, reason);
+  }
+}
+
+/** Startup: bring back stored rooms that have not expired and resume their bots and clocks. */
+function restoreRooms(io: Server) {
+  for (const rec of roomStore.loadAll()) {
+    if (roomExpiry(rec)) { roomStore.delete(rec.id); continue; }
+    try {
+      const room = fromRoomRecord(rec);
+      rooms.set(room.id, room);
+      // Nobody is connected yet: hold each human seat just as if they had all dropped
+      for (const p of room.players) if (!p.bot) startGrace(io, room, p);
+      if (room.status === 'ACTIVE') emitStateToAll(io, room);
+    } catch (e: any) {
+      console.error(`Could not restore room ${rec.id}: ${e.message}`);
+    }
+  }
+  if (rooms.size) console.log(`Restored ${rooms.size} room(s)`);
+}
+
+// ---------------- Chat ----------------
+
+const CHAT_CHANNELS: ChatChannel[] = ['room', 'team'];
+const EMOTES: Emote[] = ['gg', 'wp', 'nice', 'oops', 'thinking', 'hurry', 'thanks', 'wow'];
+
+/** A message as the room keeps it; recipients never go over the wire. */
+interface StoredChatMessage extends ChatMessage {
+  recipients?: string[];   // team channel: the team's player ids when it was sent (absent in older records)
+}
+
+interface ChatState {
+  history: StoredChatMessage[]; // newest last, at most CHAT_HISTORY_SIZE
+  spectatorsAllowed: boolean;
+}
+
+const CHAT_MAX_LENGTH = Number(process.env.CHAT_MAX_LENGTH ?? 300);
+const CHAT_HISTORY_SIZE = Number(process.env.CHAT_HISTORY_SIZE ?? 100);
+const CHAT_RATE_LIMIT = Number(process.env.CHAT_RATE_LIMIT ?? 5); // messages per window, per connection
+const CHAT_RATE_WINDOW_MS = Number(process.env.CHAT_RATE_WINDOW_MS ?? 10_000);
+
+function newChatState(): ChatState {
+  return { history: [], spectatorsAllowed: false };
+}
+
+/**
+ * Everyone sees the room channel; a team message only the players who were on
+ * that team when it was sent, so swapping teams does not reveal the other side's chat.
+ */
+function canSeeChat(msg: StoredChatMessage, player: SeatedPlayer | null): boolean {
+  if (msg.channel === 'room') return true;
+  if (!player) return false;
+  return msg.recipients ? msg.recipients.includes(player.playerId) : msg.teamId === player.teamId;
+}
+
+function chatHistoryFor(room: Room, player: SeatedPlayer | null): ChatMessage[] {
+  return room.chat.history.filter(m => canSeeChat(m, player)).map(({ recipients: _recipients, ...m }) => m);
+}
+
+/** Sliding-window limit per socket; throws when the connection has sent too much lately. */
+function takeChatSlot(socket: GameSocket) {
+  const now = Date.now();
+  const recent = (socket.data.chatTimes ?? []).filter(t => now - t < CHAT_RATE_WINDOW_MS);
+  if (recent.length >= CHAT_RATE_LIMIT) {
+    socket.data.chatTimes = recent;
+    throw new RoomError('CHAT_RATE_LIMITED', 'You are sending messages too quickly', {
+      retryInMs: CHAT_RATE_WINDOW_MS - (now - recent[0]),
+    });
+  }
+  recent.push(now);
+  socket.data.chatTimes = recent;
+}
+
+/** Validate the sender and channel, then store and deliver a message. */
+function postChat(io: Server, socket: GameSocket, channel: unknown, kind: ChatMessage['kind'], text: string) {
+  const room = getRoomOrThrow(socket.data.roomId!);
+  if (!CHAT_CHANNELS.includes(channel as ChatChannel)) {
+    throw new RoomError('INVALID_CHANNEL', `channel must be one of ${CHAT_CHANNELS.join(', ')}`, { channel });
+  }
+  let from: ChatMessage['from'];
+  let teamId: number | null = null;
+  if (socket.data.spectator) {
+    if (channel !== 'room' || !room.chat.spectatorsAllowed) throw new RoomError('CHAT_NOT_ALLOWED', 'Spectators cannot chat here');
+    const spectator = room.spectators.find(sp => sp.socketId === socket.id);
+    from = { playerId: null, name: spectator?.name ?? 'Spectator', seat: null, spectator: true };
+  } else {
+    const me = requireSeated(room, socket.data.playerId);
+    from = { playerId: me.playerId, name: me.name, seat: me.seat, spectator: false };
+    if (channel === 'team') teamId = me.teamId;
+  }
+  takeChatSlot(socket);
+
+  const msg: ChatMessage = { id: uuidv4(), channel: channel as ChatChannel, teamId, from, kind, text, at: Date.now() };
+  const recipients = msg.channel === 'team' ? room.players.filter(p => p.teamId === teamId).map(p => p.playerId) : undefined;
+  room.chat.history.push({ ...msg, recipients });
+  if (room.chat.history.length > CHAT_HISTORY_SIZE) room.chat.history.splice(0, room.chat.history.length - CHAT_HISTORY_SIZE);
+  if (msg.channel === 'room') {
+    io.to(room.id).emit('chat', msg);
+  } else {
+    for (const p of room.players) {
+      if (p.teamId === teamId && p.socketId) io.to(p.socketId).emit('chat', msg);
+    }
+  }
+  saveRoom(room);
+  return msg;
+}
+
+// ---------------- Profiles & ratings ----------------
+
+const profiles = new ProfileRegistry(createProfileStore());
+
+// What a bot counts as when rating its opponents and partner
+const BOT_RATINGS: Record<BotDifficulty, number> = { easy: 1200, strong: 1600 };
+const PROFILE_NAME_MAX = 24;
+
+function requireProfile(token: unknown): StoredProfile {
+  const profile = profiles.authenticate(token);
+  if (!profile) throw new RoomError('INVALID_PROFILE', 'Profile token is invalid');
+  return profile;
+}
+
+/** Play a seat under a profile; a profile holds at most one seat per room. */
+function linkProfile(room: Room, seated: SeatedPlayer, profile: StoredProfile) {
+  if (seated.profileId === profile.id) return;
+  const elsewhere = room.players.find(p => p.profileId === profile.id);
+  if (seated.profileId || elsewhere) {
+    throw new RoomError('PROFILE_IN_USE', 'The seat or the profile is already taken in this room', { seat: elsewhere?.seat ?? seated.seat });
+  }
+  seated.profileId = profile.id;
+  seated.name = profile.name;
+}
+
+/** Rate a scored round for every seat linked to a profile. */
+function rateRound(room: Room, scores: FinalScoreSummary, showsBy: Map<string, number>): RatingChange[] {
+  const participants: RoundParticipant[] = room.players.map(p => ({
+    playerId: p.playerId,
+    teamId: p.teamId,
+    profileId: p.profileId,
+    rating: p.bot && !p.standIn ? BOT_RATINGS[p.bot.difficulty] : DEFAULT_RATING,
+    shows: showsBy.get(p.playerId) ?? 0,
+  }));
+  return profiles.recordRound(participants, scores.teamScores);
+}
+
 // ---------------- Helpers ----------------
 
-function createRoom(): Room {
+function createRoom(config?: MatchConfigInput, clock: ClockConfig = DEFAULT_CLOCK): Room {
   const id = uuidv4().slice(0, 8).toUpperCase();
   const room: Room = {
     id,
-    game: new BucaroGame(),
+    match: new BucaroMatch(config),
     players: [],
+    spectators: [],
+    coaching: { enabled: false, delayMs: COACHING_DELAY_MS },
+    chat: newChatState(),
     status: 'LOBBY',
     createdAt: Date.now(),
+    lastActivityAt: Date.now(),
+    version: 0,
+    clock: newRoomClock(clock),
+    actions: new ActionQueue(ACTION_HISTORY_SIZE),
   };
   rooms.set(id, room);
+  saveRoom(room);
   return room;
 }
 
 function getRoomOrThrow(id: RoomId): Room {
   const r = rooms.get(id);
-  if (!r) throw new Error('Room not found');
+  if (!r) throw new RoomError('ROOM_NOT_FOUND', 'Room not found', { roomId: id });
   return r;
 }
 
-function broadcastLobby(io: Server, room: Room) {
-  const summary: LobbySummary = {
+function currentGame(room: Room): BucaroGame {
+  const game = room.match.game;
+  if (!game) throw new RoomError('GAME_NOT_STARTED', 'Game not started');
+  return game;
+}
+
+function lobbySummary(room: Room): LobbySummary {
+  return {
     roomId: room.id,
     status: room.status,
+    hostId: room.hostId,
     seats: Array.from({ length: 4 }).map((_, seat) => {
       const p = room.players.find(pp => pp.seat === seat);
+      // A linked profile can be missing, e.g. a room restored next to a different profile store
+      const profile = p?.profileId ? profiles.get(p.profileId) : undefined;
       return {
         seat,
+        teamId: seat % 2,
         name: p?.name,
         playerId: p?.playerId,
-        connected: !!p?.socketId,
+        connected: !!p?.socketId || (!!p?.bot && !p.standIn),
+        ready: !!p?.ready,
+        bot: p?.standIn ? undefined : p?.bot?.difficulty,
+        profileId: p?.profileId,
+        rating: profile ? toPlayerProfile(profile).rating : undefined,
       };
-    })
+    }),
+    allReady: allReady(room),
+    spectators: room.spectators.length,
+    coaching: { ...room.coaching },
+    spectatorChat: room.chat.spectatorsAllowed,
+    version: room.version,
   };
-  io.to(room.id).emit('lobby', summary);
+}
+
+function broadcastLobby(io: Server, room: Room) {
+  io.to(room.id).emit('lobby', lobbySummary(room));
+  saveRoom(room);
+}
+
+/** A seated player's view, with the room clock attached. */
+function playerView(room: Room, playerId: string) {
+  return { ...currentGame(room).getPlayerState(playerId), clock: clockView(room) };
 }
 
 function emitStateToAll(io: Server, room: Room) {
   if (room.status === 'LOBBY') { broadcastLobby(io, room); return; }
+  const game = room.match.game;
+  if (!game) return;
+  syncClock(io, room);
+  room.version += 1;
   for (const p of room.players) {
-    if (!p.playerId) continue;
+    if (!p.socketId) continue;
     try {
-      const view = room.game.getPlayerState(p.playerId);
-      if (p.socketId) io.to(p.socketId).emit('state', view);
+      sendPlayerState(io, room, p);
     } catch (e) {
       // ignore if player not in game yet
     }
   }
+  emitToSpectators(io, room);
+  scheduleBotTurn(io, room);
+  saveRoom(room);
+}
+
+/**
+ * Send a seat its view at the room's current version: a patch against what this
+ * connection was last sent, or the full view (first send, new connection, `full`).
+ */
+function sendPlayerState(io: Server, room: Room, p: SeatedPlayer, full = false) {
+  const view = playerView(room, p.playerId);
+  const base = p.sent;
+  p.sent = { version: room.version, view, socketId: p.socketId! };
+  if (full || !base || base.socketId !== p.socketId || base.version >= room.version) {
+    io.to(p.socketId!).emit('state', { ...view, version: room.version });
+    return;
+  }
+  io.to(p.socketId!).emit('statePatch', { version: room.version, baseVersion: base.version, ops: diffState(base.view, view) });
+}
+
+/** Spectators get the redacted view now, or in coaching mode the full view after the delay. */
+function emitToSpectators(io: Server, room: Room) {
+  if (!room.spectators.length) return;
+  const game = room.match.game;
+  if (!game) return;
+  if (!room.coaching.enabled) {
+    const view = { ...game.getSpectatorState(), clock: clockView(room), version: room.version };
+    for (const s of room.spectators) io.to(s.socketId).emit('state', view);
+    return;
+  }
+  // Taken now, delivered later: the feed shows the table as it was delayMs ago
+  const view = { ...game.getSpectatorState({ revealHands: true }), version: room.version };
+  setTimeout(() => {
+    if (!room.coaching.enabled) return;
+    for (const s of room.spectators) io.to(s.socketId).emit('state', view);
+  }, room.coaching.delayMs);
+}
+
+/** If a bot is to move, play its turn after BOT_DELAY_MS (one pending turn per room). */
+function scheduleBotTurn(io: Server, room: Room) {
+  if (room.botTimer || room.status !== 'ACTIVE') return;
+  const game = room.match.game;
+  if (!game) return;
+  const pub = game.getPublicState();
+  if (pub.status !== 'ACTIVE') return;
+  // Engine players are registered in seat order, so currentTurn === seat
+  const seated = room.players.find(p => p.seat === pub.currentTurn);
+  if (!seated?.bot) return;
+  const bot = seated.bot;
+
+  room.botTimer = setTimeout(() => room.actions.run(() => {
+    room.botTimer = undefined;
+    try {
+      bot.playTurn(game);
+    } catch (e: any) {
+      console.error(`Bot ${seated.name} in room ${room.id} failed: ${e.message}`);
+      // Take back whatever the bot staged and end the turn the way a timeout would
+      try {
+        while (game.getLegalActions(seated.playerId).undo.allowed) game.undoPlacement(seated.playerId);
+        playTimeoutMove(game, seated.playerId);
+      } catch (e2: any) {
+        console.error(`Fallback move for bot ${seated.name} in room ${room.id} failed: ${e2.message}`);
+        io.to(room.id).emit('toast', `${seated.name} (bot) could not move`);
+        return;
+      }
+    }
+    finishRoundIfEnded(io, room, 'Round ended. Computing scores...');
+  }), BOT_DELAY_MS);
 }
 
 function seatForNextJoin(room: Room): number {
   const taken = new Set(room.players.map(p => p.seat));
   for (let i = 0; i < 4; i++) if (!taken.has(i)) return i;
-  throw new Error('Room full');
+  throw new RoomError('ROOM_FULL', 'Room full');
+}
+
+/** The seat a token was issued for, if the token is valid and its session is still current. */
+function playerForToken(room: Room, token: string): SeatedPlayer | undefined {
+  const claims = verifySessionToken(token);
+  if (!claims || claims.roomId !== room.id) return undefined;
+  return room.players.find(p => p.playerId === claims.playerId && p.sessionId === claims.sid);
 }
 
-function ensureSeated(room: Room, name: string, playerId?: string): SeatedPlayer {
-  // Reconnect path
-  if (playerId) {
-    const existing = room.players.find(p => p.playerId === playerId);
-    if (existing) return existing;
+function ensureSeated(room: Room, name: string, token?: string, wantedSeat?: number): SeatedPlayer {
+  // Reconnect path: only a valid token for the seat's current session gets it back
+  if (token !== undefined) {
+    const existing = playerForToken(room, token);
+    if (!existing) throw new RoomError('INVALID_TOKEN', 'Session token is invalid, expired or revoked');
+    return existing;
+  }
+  if (room.players.length >= 4) throw new RoomError('ROOM_FULL', 'Room already full');
+  let seat = seatForNextJoin(room);
+  if (wantedSeat !== undefined) {
+    seat = requireSeatNumber(wantedSeat);
+    if (room.players.some(p => p.seat === seat)) throw new RoomError('SEAT_TAKEN', 'Seat taken', { seat });
   }
-  if (room.players.length >= 4) throw new Error('Room already full');
-  const seat = seatForNextJoin(room);
   const teamId = seat % 2; // 0,1,0,1
-  const p: SeatedPlayer = { playerId: uuidv4(), name, seat, teamId };
+  const p: SeatedPlayer = { playerId: uuidv4(), name, seat, teamId, ready: false, sessionId: newSessionId() };
+  room.players.push(p);
+  if (!room.hostId) room.hostId = p.playerId;
+  return p;
+}
+
+function issueToken(room: Room, p: SeatedPlayer): string {
+  return signSessionToken({ roomId: room.id, playerId: p.playerId, sid: p.sessionId!, exp: Date.now() + SESSION_TTL_MS });
+}
+
+/** A disconnected seat is held for RECONNECT_GRACE_MS before it is released. */
+function startGrace(io: Server, room: Room, p: SeatedPlayer) {
+  clearTimeout(p.graceTimer);
+  const graceEndsAt = Date.now() + RECONNECT_GRACE_MS;
+  p.graceTimer = setTimeout(() => room.actions.run(() => {
+    // A reconnect or kick may have got in just ahead of the timer
+    if (p.socketId || !room.players.includes(p)) return;
+    releaseSeat(io, room, p);
+  }), RECONNECT_GRACE_MS);
+  io.to(room.id).emit('presence', { playerId: p.playerId, seat: p.seat, name: p.name, online: false, graceEndsAt });
+}
+
+/**
+ * Give up a human seat for good: its tokens stop working. In the lobby the seat
+ * is freed; during a match a bot plays it from now on.
+ */
+function releaseSeat(io: Server, room: Room, p: SeatedPlayer) {
+  clearTimeout(p.graceTimer);
+  p.graceTimer = undefined;
+  p.sessionId = undefined;
+  if (room.status === 'LOBBY') room.players = room.players.filter(pp => pp !== p);
+  if (room.hostId === p.playerId) {
+    // Bots (including the stand-in about to take this seat) cannot host
+    room.hostId = room.players.find(pp => !pp.bot && pp.socketId)?.playerId;
+  }
+  if (room.status === 'LOBBY') {
+    io.to(room.id).emit('toast', `${p.name} did not come back and left the room`);
+    broadcastLobby(io, room);
+    return;
+  }
+  if (!p.bot) {
+    p.bot = new BucaroBot(p.playerId, 'easy', room.id);
+    p.standIn = true;
+  }
+  io.to(room.id).emit('toast', `${p.name} did not come back; a bot plays their seat`);
+  broadcastLobby(io, room);
+  emitStateToAll(io, room);
+}
+
+function requireHost(room: Room, playerId?: string) {
+  if (!playerId || room.hostId !== playerId) throw new RoomError('NOT_HOST', 'Only the host can do that');
+}
+
+function requireSeated(room: Room, playerId?: string): SeatedPlayer {
+  const p = room.players.find(pp => pp.playerId === playerId);
+  if (!p) throw new RoomError('NOT_SEATED', 'Not seated');
+  return p;
+}
+
+function requireLobby(room: Room, what: string) {
+  if (room.status !== 'LOBBY') throw new RoomError('LOBBY_ONLY', `${what} only in the lobby`);
+}
+
+/** Socket.IO hands listeners whatever the client sent, including nothing at all. */
+function requirePayload<T extends object>(payload: T | null | undefined): T {
+  if (!payload || typeof payload !== 'object') throw new RoomError('BAD_REQUEST', 'Missing payload');
+  return payload;
+}
+
+function requireSeatNumber(seat: unknown): number {
+  if (typeof seat !== 'number' || !Number.isInteger(seat) || seat < 0 || seat > 3) {
+    throw new RoomError('INVALID_SEAT', 'Invalid seat', { seat });
+  }
+  return seat;
+}
+
+function requireActionId(actionId: unknown): string {
+  if (typeof actionId !== 'string' || actionId.length < 1 || actionId.length > 64) {
+    throw new RoomError('INVALID_ACTION', 'Actions need an actionId of 1-64 characters', { actionId });
+  }
+  return actionId;
+}
+
+/** The player acted on what they saw at expectedVersion; refuse if the table has moved on since. */
+function requireVersion(room: Room, expectedVersion: unknown) {
+  if (!Number.isInteger(expectedVersion)) {
+    throw new RoomError('INVALID_ACTION', 'Actions need the expectedVersion they were made against', { expectedVersion });
+  }
+  if (expectedVersion !== room.version) {
+    throw new RoomError('STALE_VERSION', 'The table changed since you acted; try again', { expectedVersion, version: room.version });
+  }
+}
+
+function allReady(room: Room): boolean {
+  return room.players.length === 4 && room.players.every(p => p.ready);
+}
+
+/** Put whoever sits in seat `a` into seat `b` and vice versa; moved humans must ready up again. */
+function swapSeatOccupants(io: Server, room: Room, a: number, b: number) {
+  const pa = room.players.find(p => p.seat === a);
+  const pb = room.players.find(p => p.seat === b);
+  const move = (p: SeatedPlayer | undefined, seat: number) => {
+    if (!p) return;
+    p.seat = seat;
+    p.teamId = seat % 2;
+    p.ready = !!p.bot;
+    const sock = p.socketId ? io.sockets.sockets.get(p.socketId) : undefined;
+    if (sock) sock.data.seat = seat;
+  };
+  move(pa, b);
+  move(pb, a);
+}
+
+function addBot(room: Room, difficulty: BotDifficulty, seat?: number): SeatedPlayer {
+  if (room.status !== 'LOBBY') throw new RoomError('LOBBY_ONLY', 'Bots can only join in the lobby');
+  if (!BOT_DIFFICULTIES.includes(difficulty)) throw new RoomError('INVALID_BOT', 'Unknown bot difficulty', { difficulty });
+  const target = seat ?? seatForNextJoin(room);
+  if (!Number.isInteger(target) || target < 0 || target > 3) throw new RoomError('INVALID_SEAT', 'Invalid seat', { seat: target });
+  if (room.players.some(p => p.seat === target)) throw new RoomError('SEAT_TAKEN', 'Seat taken', { seat: target });
+  const playerId = uuidv4();
+  const p: SeatedPlayer = {
+    playerId,
+    name: `Bot ${target + 1} (${difficulty})`,
+    seat: target,
+    teamId: target % 2,
+    ready: true,
+    bot: new BucaroBot(playerId, difficulty, room.id),
+  };
   room.players.push(p);
   return p;
 }
 
 function startGameIfPossible(room: Room) {
-  if (room.status !== 'LOBBY') throw new Error('Game already started');
-  if (room.players.length !== 4) throw new Error('Need 4 players to start');
+  if (room.status !== 'LOBBY') throw new RoomError('ALREADY_STARTED', 'Game already started');
+  if (room.players.length !== 4) throw new RoomError('NEED_FOUR_PLAYERS', 'Need 4 players to start');
+  if (!allReady(room)) {
+    throw new RoomError('NOT_ALL_READY', 'All players must be ready', {
+      notReady: room.players.filter(p => !p.ready).map(p => p.playerId),
+    });
+  }
 
-  // Register players into engine
-  for (const p of room.players) {
-    room.game.addPlayer(p.playerId, p.name);
+  // Register players into the match (seat order), then deal round 1
+  for (const p of room.players.slice().sort((a, b) => a.seat - b.seat)) {
+    room.match.addPlayer(p.playerId, p.name);
   }
-  room.game.startGame();
+  room.match.startNextRound();
   room.status = 'ACTIVE';
 }
 
-// ---------------- Server bootstrap ----------------
+/** After an action: if the round ended, score it and broadcast results. */
+function finishRoundIfEnded(io: Server, room: Room, endMsg: string) {
+  const game = currentGame(room);
+  if (game.getPublicState().status !== 'ENDED') {
+    emitStateToAll(io, room);
+    return;
+  }
+  const showsBy = new Map<string, number>();
+  for (const a of game.getJournal()) {
+    if (a.type === 'show') showsBy.set(a.playerId, (showsBy.get(a.playerId) ?? 0) + 1);
+  }
+  const round = room.match.completeRound();
+  const match = room.match.getSummary();
+  const ratings = rateRound(room, round.scores, showsBy);
+  io.to(room.id).emit('toast', endMsg);
+  // Emit final per-player view one last time, then results
+  emitStateToAll(io, room);
+  io.to(room.id).emit('state', { results: round.scores, match, ratings });
+  if (match.status === 'ENDED') room.status = 'ENDED';
+  saveRoom(room);
+}
+
+// ---------------- REST API (see openapi.json) ----------------
+
+interface RoomListing {
+  roomId: string;
+  status: Room['status'];
+  createdAt: number;
+  lastActivityAt: number;
+  seated: number;    // humans and bots
+  humans: number;
+  spectators: number;
+  round: number;
+  totals: [number, number];
+}
+
+const ROOM_STATUSES: Room['status'][] = ['LOBBY', 'ACTIVE', 'ENDED'];
+
+const HTTP_STATUS: Partial<Record<RoomErrorCode, number>> = {
+  ROOM_NOT_FOUND: 404,
+  INVALID_TOKEN: 401,
+  NOT_HOST: 403,
+  PROFILE_NOT_FOUND: 404,
+};
+
+function httpStatus(e: unknown): number {
+  if (e instanceof RoomError) return HTTP_STATUS[e.code] ?? 400;
+  if (e instanceof BucaroRuleError) return 400;
+  return 500;
+}
+
+function sendError(res: express.Response, e: unknown, status = httpStatus(e)) {
+  const payload = toErrorPayload(e);
+  res.status(status).json({ error: payload.message, ...payload });
+}
+
+type FieldCheck = (v: unknown) => boolean;
+
+/** One check per field of the body type T. */
+type BodyShape<T> = { [K in keyof T]-?: FieldCheck };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString: FieldCheck = v => typeof v === 'string';
+const isIntOrNull: FieldCheck = v => v === null || Number.isInteger(v);
+
+/** Reject non-object bodies, unknown fields and fields of the wrong type; values are checked where they are used. */
+function validateBody<T extends object>(body: unknown, shape: BodyShape<T>): T {
+  if (body === undefined) return {} as T;
+  if (!isObject(body)) throw new RoomError('INVALID_BODY', 'Body must be a JSON object');
+  for (const key of Object.keys(body)) {
+    if (!(key in shape)) throw new RoomError('INVALID_BODY', `Unknown field: ${key}`, { field: key });
+  }
+  for (const [key, check] of Object.entries<FieldCheck>(shape)) {
+    if (body[key] !== undefined && !check(body[key])) throw new RoomError('INVALID_BODY', `Invalid value for ${key}`, { field: key });
+  }
+  return body as T;
+}
+
+const CREATE_ROOM_BODY: BodyShape<CreateRoomBody> = {
+  preset: isString,
+  rules: isObject,
+  targetScore: isIntOrNull,
+  maxRounds: isIntOrNull,
+  clock: isObject,
+};
+
+function roomListing(room: Room): RoomListing {
+  const summary = room.match.getSummary();
+  return {
+    roomId: room.id,
+    status: room.status,
+    createdAt: room.createdAt,
+    lastActivityAt: room.lastActivityAt,
+    seated: room.players.length,
+    humans: room.players.filter(p => !p.bot || p.standIn).length,
+    spectators: room.spectators.length,
+    round: summary.round,
+    totals: summary.totals,
+  };
+}
+
+/** The room's host, proven by an `Authorization: Bearer <session token>` header. */
+function requireHostToken(room: Room, authorization?: string) {
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+  const p = token ? playerForToken(room, token) : undefined;
+  if (!p) throw new RoomError('INVALID_TOKEN', 'A valid session token for this room is required');
+  requireHost(room, p.playerId);
+}
 
 const app = express();
 app.use(cors());
 app.use(express.json());
 
-// Minimal REST: create a room
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok', uptimeMs: Math.round(process.uptime() * 1000), rooms: rooms.size });
+});
+
+app.get('/openapi.json', (_req, res) => {
+  res.json(openApiSpec);
+});
+
+// Create a room
+// Body (optional): CreateRoomBody (see protocol.ts)
 app.post('/rooms', (req, res) => {
+  let config: MatchConfigInput;
+  let clock: ClockConfig;
+  try {
+    const { preset, rules, targetScore, maxRounds, clock: clockInput } = validateBody(req.body, CREATE_ROOM_BODY);
+    config = { targetScore, maxRounds, game: { preset, rules } };
+    new BucaroMatch(config); // validate match settings and house rules up front
+    clock = parseClockConfig(clockInput);
+  } catch (e: any) {
+    sendError(res, e, 400);
+    return;
+  }
   try {
-    const room = createRoom();
-    res.json({ roomId: room.id });
+    const room = createRoom(config, clock);
+    res.json({ roomId: room.id, match: room.match.getSummary() });
   } catch (e: any) {
-    res.status(500).json({ error: e.message });
+    sendError(res, e, 500);
   }
 });
 
+app.get('/rooms', (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status !== undefined && !ROOM_STATUSES.includes(status as Room['status'])) {
+      throw new RoomError('INVALID_QUERY', `status must be one of ${ROOM_STATUSES.join(', ')}`, { status });
+    }
+    const list = [...rooms.values()].filter(r => status === undefined || r.status === status).map(roomListing);
+    res.json({ rooms: list });
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.get('/rooms/:id', (req, res) => {
+  try {
+    const room = getRoomOrThrow(req.params.id);
+    const game = room.match.game;
+    res.json({
+      lobby: lobbySummary(room),
+      match: room.match.getSummary(),
+      state: game ? { ...game.getSpectatorState(), clock: clockView(room) } : null,
+    });
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.get('/rooms/:id/results', (req, res) => {
+  try {
+    const room = getRoomOrThrow(req.params.id);
+    const { status, totals, winnerTeam, forfeitTeam, rounds } = room.match.getSummary();
+    res.json({ roomId: room.id, final: status === 'ENDED', totals, winnerTeam, forfeitTeam, rounds });
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.delete('/rooms/:id', (req, res) => {
+  try {
+    const room = getRoomOrThrow(req.params.id);
+    requireHostToken(room, req.get('authorization'));
+    closeRoom(io, room, 'deleted');
+    res.status(204).end();
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.post('/profiles', (req, res) => {
+  try {
+    const { name } = validateBody(req.body, { name: isString });
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > PROFILE_NAME_MAX) {
+      throw new RoomError('INVALID_BODY', `name must be 1-${PROFILE_NAME_MAX} characters`, { field: 'name' });
+    }
+    res.json(profiles.create(trimmed));
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.get('/profiles/:id', (req, res) => {
+  try {
+    const profile = profiles.get(req.params.id);
+    if (!profile) throw new RoomError('PROFILE_NOT_FOUND', 'Profile not found', { profileId: req.params.id });
+    res.json(toPlayerProfile(profile));
+  } catch (e: any) { sendError(res, e); }
+});
+
+app.get('/leaderboard', (req, res) => {
+  try {
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const minGames = req.query.minGames === undefined ? 1 : Number(req.query.minGames);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new RoomError('INVALID_QUERY', 'limit must be an integer from 1 to 100', { limit: req.query.limit });
+    }
+    if (!Number.isInteger(minGames) || minGames < 0) {
+      throw new RoomError('INVALID_QUERY', 'minGames must be a non-negative integer', { minGames: req.query.minGames });
+    }
+    res.json({ players: profiles.leaderboard(limit, minGames) });
+  } catch (e: any) { sendError(res, e); }
+});
+
+// Malformed JSON bodies get the same error shape as everything else
+app.use((err: any, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err?.type === 'entity.parse.failed') {
+    sendError(res, new RoomError('INVALID_BODY', 'Body is not valid JSON'));
+    return;
+  }
+  next(err);
+});
+
+// ---------------- Server bootstrap ----------------
+
 const server = http.createServer(app);
 const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
   cors: { origin: '*'}
 });
 
-io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) => {
+io.on('connection', (socket: GameSocket) => {
+  const room = () => getRoomOrThrow(socket.data.roomId!);
+  const me = () => socket.data.playerId!;
+
+  /**
+   * A table action by this socket's player, run through the room's action queue:
+   * at most once per actionId, and only against the version the player expected.
+   * Answers with the version it produced.
+   */
+  const act = (meta: ActionMeta | undefined, ack: Ack<ActionAck> | undefined, run: (r: Room) => void) => {
+    const queued = attempt(() => ({ r: room(), key: `${me()}:${requireActionId(requirePayload(meta).actionId)}` }));
+    if (!queued.ok) return reply(socket, ack, queued);
+    const { r, key } = queued.data;
+    const { result, duplicate } = r.actions.once(key, () => attempt<ActionAck>(() => {
+      requireVersion(r, meta!.expectedVersion);
+      run(r);
+      return { version: r.version };
+    }));
+    result.then(res => reply(socket, ack, duplicate && res.ok ? { ok: true, data: { ...res.data, duplicate: true } } : res));
+  };
+
   // ---- joinRoom ----
-  socket.on('joinRoom', (payload) => {
-    try {
-      const room = getRoomOrThrow(payload.roomId);
+  socket.on('joinRoom', (payload, ack) => respond(socket, ack, () => {
+    requirePayload(payload);
+    const room = getRoomOrThrow(payload.roomId);
+    if (payload.spectator) {
       socket.join(room.id);
-      const seated = ensureSeated(room, payload.name, payload.playerId);
-      seated.socketId = socket.id;
+      room.spectators.push({ socketId: socket.id, name: payload.name });
       socket.data.roomId = room.id;
-      socket.data.playerId = seated.playerId;
-      socket.data.seat = seated.seat;
-
-      socket.emit('joined', { roomId: room.id, playerId: seated.playerId, seat: seated.seat, teamId: seated.teamId, status: room.status });
+      socket.data.spectator = true;
+      const info = { roomId: room.id, status: room.status, coaching: { ...room.coaching } };
+      socket.emit('spectating', info);
+      socket.emit('chatHistory', { messages: chatHistoryFor(room, null) });
       broadcastLobby(io, room);
-      emitStateToAll(io, room);
-    } catch (e: any) {
-      socket.emit('errorMsg', e.message);
+      if (room.match.game) {
+        // A coaching feed starts with the next delayed update; never send live hands
+        socket.emit('state', { ...room.match.game.getSpectatorState(), clock: clockView(room), version: room.version });
+      }
+      return { role: 'spectator' as const, ...info };
     }
-  });
+    const profile = payload.profileToken !== undefined ? requireProfile(payload.profileToken) : undefined;
+    if (profile && payload.token === undefined && room.players.some(p => p.profileId === profile.id)) {
+      throw new RoomError('PROFILE_IN_USE', 'This profile already plays in this room; rejoin with its session token');
+    }
+    socket.join(room.id);
+    const seated = ensureSeated(room, profile?.name ?? payload.name, payload.token, payload.seat);
+    if (profile) linkProfile(room, seated, profile);
+    const previousSocket = seated.socketId;
+    const wasOffline = !previousSocket && payload.token !== undefined;
+    seated.socketId = socket.id;
+    clearTimeout(seated.graceTimer);
+    seated.graceTimer = undefined;
+    // The newest connection wins; an older one for the same seat is dropped
+    if (previousSocket && previousSocket !== socket.id) io.sockets.sockets.get(previousSocket)?.disconnect(true);
+    socket.data.roomId = room.id;
+    socket.data.playerId = seated.playerId;
+    socket.data.seat = seated.seat;
+
+    const info = {
+      roomId: room.id,
+      playerId: seated.playerId,
+      seat: seated.seat,
+      teamId: seated.teamId,
+      status: room.status,
+      token: issueToken(room, seated),
+    };
+    socket.emit('joined', info);
+    socket.emit('chatHistory', { messages: chatHistoryFor(room, seated) });
+    if (wasOffline) io.to(room.id).emit('presence', { playerId: seated.playerId, seat: seated.seat, name: seated.name, online: true });
+    broadcastLobby(io, room);
+    emitStateToAll(io, room);
+    return { role: 'player' as const, ...info };
+  }));
+
+  // ---- setCoaching (host only) ----
+  socket.on('setCoaching', (payload, ack) => respond(socket, ack, () => {
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    const enabled = payload?.enabled;
+    const delayMs = payload?.delayMs;
+    if (typeof enabled !== 'boolean') throw new RoomError('INVALID_COACHING', 'enabled must be true or false', { enabled });
+    const delay = delayMs ?? r.coaching.delayMs;
+    if (!Number.isInteger(delay) || delay < MIN_COACHING_DELAY_MS) {
+      throw new RoomError('INVALID_COACHING', `delayMs must be an integer of at least ${MIN_COACHING_DELAY_MS}`, { delayMs });
+    }
+    r.coaching = { enabled, delayMs: delay };
+    io.to(r.id).emit('toast', enabled ? `Coaching mode on: spectators see all hands ${delay / 1000}s late` : 'Coaching mode off');
+    broadcastLobby(io, r);
+    emitToSpectators(io, r);
+    return null;
+  }));
+
+  // ---- chat ----
+  socket.on('chat', (payload, ack) => respond(socket, ack, () => {
+    const text = typeof payload?.text === 'string' ? payload.text.trim() : '';
+    if (!text) throw new RoomError('CHAT_EMPTY', 'Message is empty');
+    if (text.length > CHAT_MAX_LENGTH) {
+      throw new RoomError('CHAT_TOO_LONG', `Messages are limited to ${CHAT_MAX_LENGTH} characters`, { maxLength: CHAT_MAX_LENGTH });
+    }
+    return { id: postChat(io, socket, payload.channel, 'text', text).id };
+  }));
+
+  socket.on('emote', (payload, ack) => respond(socket, ack, () => {
+    if (!EMOTES.includes(payload?.emote)) throw new RoomError('INVALID_EMOTE', 'Unknown emote', { emote: payload?.emote, emotes: [...EMOTES] });
+    return { id: postChat(io, socket, payload.channel, 'emote', payload.emote).id };
+  }));
+
+  // ---- setSpectatorChat (host only) ----
+  socket.on('setSpectatorChat', (payload, ack) => respond(socket, ack, () => {
+    const { allowed } = requirePayload(payload);
+    if (typeof allowed !== 'boolean') throw new RoomError('BAD_REQUEST', 'allowed must be true or false', { allowed });
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    r.chat.spectatorsAllowed = allowed;
+    io.to(r.id).emit('toast', allowed ? 'Spectators may now chat' : 'Spectator chat is off');
+    broadcastLobby(io, r);
+    return null;
+  }));
 
   // ---- startGame ----
-  socket.on('startGame', () => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      startGameIfPossible(room);
-      emitStateToAll(io, room);
-    } catch (e: any) {
-      socket.emit('errorMsg', e.message);
+  socket.on('startGame', (meta, ack) => act(meta, ack, r => {
+    requireHost(r, socket.data.playerId);
+    startGameIfPossible(r);
+    emitStateToAll(io, r);
+  }));
+
+  // ---- seats, ready checks and host controls (lobby) ----
+  socket.on('chooseSeat', (payload, ack) => respond(socket, ack, () => {
+    const { seat } = requirePayload(payload);
+    const r = room();
+    requireLobby(r, 'Seats can change');
+    const seated = requireSeated(r, socket.data.playerId);
+    const target = requireSeatNumber(seat);
+    const occupant = r.players.find(p => p.seat === target);
+    // Empty and bot seats are free to take; swapping with a human is up to the host
+    if (occupant && occupant !== seated && !occupant.bot) throw new RoomError('SEAT_TAKEN', 'Seat taken; ask the host to swap', { seat: target });
+    swapSeatOccupants(io, r, seated.seat, target);
+    broadcastLobby(io, r);
+    return null;
+  }));
+
+  socket.on('swapSeats', (payload, ack) => respond(socket, ack, () => {
+    const { a, b } = requirePayload(payload);
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    requireLobby(r, 'Seats can change');
+    swapSeatOccupants(io, r, requireSeatNumber(a), requireSeatNumber(b));
+    broadcastLobby(io, r);
+    return null;
+  }));
+
+  socket.on('setReady', (payload, ack) => respond(socket, ack, () => {
+    const { ready } = requirePayload(payload);
+    const r = room();
+    requireLobby(r, 'Ready checks happen');
+    requireSeated(r, socket.data.playerId).ready = !!ready;
+    broadcastLobby(io, r);
+    return null;
+  }));
+
+  socket.on('kick', (payload, ack) => respond(socket, ack, () => {
+    const { playerId } = requirePayload(payload);
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    requireLobby(r, 'Players can be kicked');
+    if (playerId === socket.data.playerId) throw new RoomError('CANNOT_KICK_SELF', 'The host cannot kick themselves');
+    const target = r.players.find(p => p.playerId === playerId && !p.bot);
+    if (!target) throw new RoomError('PLAYER_NOT_FOUND', 'No such player in this room', { playerId });
+    r.players = r.players.filter(p => p !== target);
+    clearTimeout(target.graceTimer);
+    target.sessionId = undefined; // revokes the kicked player's token
+    const sock = target.socketId ? io.sockets.sockets.get(target.socketId) : undefined;
+    if (sock) {
+      sock.emit('kicked', { roomId: r.id });
+      sock.leave(r.id);
+      sock.data = {};
     }
-  });
+    io.to(r.id).emit('toast', `${target.name} was removed by the host`);
+    broadcastLobby(io, r);
+    return null;
+  }));
 
-  // ---- drawClosed ----
-  socket.on('drawClosed', () => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      room.game.drawFromClosed(socket.data.playerId!);
-      emitStateToAll(io, room);
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  socket.on('transferHost', (payload, ack) => respond(socket, ack, () => {
+    const { playerId } = requirePayload(payload);
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    const target = r.players.find(p => p.playerId === playerId && !p.bot);
+    if (!target) throw new RoomError('PLAYER_NOT_FOUND', 'No such player in this room', { playerId });
+    r.hostId = target.playerId;
+    io.to(r.id).emit('toast', `${target.name} is now the host`);
+    broadcastLobby(io, r);
+    return null;
+  }));
 
-  // ---- drawOpen ----
-  socket.on('drawOpen', () => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      room.game.drawFromOpen(socket.data.playerId!);
-      emitStateToAll(io, room);
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  // ---- addBot / removeBot (host only, lobby only) ----
+  socket.on('addBot', (payload, ack) => respond(socket, ack, () => {
+    const { seat, difficulty = 'easy' } = payload ?? {};
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    const bot = addBot(r, difficulty, seat);
+    broadcastLobby(io, r);
+    return { seat: bot.seat, playerId: bot.playerId };
+  }));
 
-  // ---- placeMelds ----
-  socket.on('placeMelds', ({ melds }) => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      room.game.placeMelds(socket.data.playerId!, melds);
-      emitStateToAll(io, room);
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  socket.on('removeBot', (payload, ack) => respond(socket, ack, () => {
+    const seat = payload?.seat;
+    if (!Number.isInteger(seat)) throw new RoomError('INVALID_SEAT', 'Invalid seat', { seat });
+    const r = room();
+    requireHost(r, socket.data.playerId);
+    if (r.status !== 'LOBBY') throw new RoomError('LOBBY_ONLY', 'Bots can only leave in the lobby');
+    const i = r.players.findIndex(p => p.seat === seat && p.bot);
+    if (i < 0) throw new RoomError('INVALID_SEAT', 'No bot in that seat', { seat });
+    r.players.splice(i, 1);
+    broadcastLobby(io, r);
+    return null;
+  }));
 
-  // ---- addToMeld ----
-  socket.on('addToMeld', ({ additions }) => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      room.game.addCardsToMeld(socket.data.playerId!, additions);
-      emitStateToAll(io, room);
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  // ---- nextRound ----
+  socket.on('nextRound', (meta, ack) => act(meta, ack, r => {
+    if (!r.players.some(p => p.playerId === socket.data.playerId)) throw new RoomError('NOT_SEATED', 'Not seated');
+    r.match.startNextRound();
+    io.to(r.id).emit('toast', `Round ${r.match.getSummary().round} dealt`);
+    emitStateToAll(io, r);
+  }));
+
+  // ---- draws ----
+  socket.on('drawClosed', (meta, ack) => act(meta, ack, r => {
+    currentGame(r).drawFromClosed(me());
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('drawOpen', (meta, ack) => act(meta, ack, r => {
+    currentGame(r).drawFromOpen(me());
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('returnOpen', (meta, ack) => act(meta, ack, r => {
+    currentGame(r).returnOpenCard(me());
+    emitStateToAll(io, r);
+  }));
+
+  // ---- placements ----
+  socket.on('placeMelds', (payload, ack) => act(payload, ack, r => {
+    const { melds } = payload;
+    currentGame(r).placeMelds(me(), melds);
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('addToMeld', (payload, ack) => act(payload, ack, r => {
+    const { additions } = payload;
+    currentGame(r).addCardsToMeld(me(), additions);
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('swapJoker', (payload, ack) => act(payload, ack, r => {
+    const { meldId, cardId } = payload;
+    currentGame(r).swapJoker(me(), { meldId, cardId });
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('undoPlacement', (meta, ack) => act(meta, ack, r => {
+    currentGame(r).undoPlacement(me());
+    emitStateToAll(io, r);
+  }));
+
+  socket.on('reorderPlacements', (payload, ack) => act(payload, ack, r => {
+    currentGame(r).reorderPlacements(me(), payload.order ?? []);
+    emitStateToAll(io, r);
+  }));
 
   // ---- discard ----
-  socket.on('discard', ({ cardId }) => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      const playerView = room.game.getPlayerState(socket.data.playerId!);
-      const card = playerView.yourHand.find(c => c.id === cardId);
-      if (!card) throw new Error('Card not in your hand');
-      room.game.discard(socket.data.playerId!, card as Card);
-
-      if (room.game.getPublicState().status === 'ENDED') {
-        const results = room.game.computeFinalScores();
-        io.to(room.id).emit('toast', 'Game ended. Computing scores...');
-        // Emit final per-player view one last time, then results
-        emitStateToAll(io, room);
-        io.to(room.id).emit('state', { results });
-        room.status = 'ENDED';
-      } else {
-        emitStateToAll(io, room);
-      }
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  socket.on('discard', (payload, ack) => act(payload, ack, r => {
+    const { cardId } = payload;
+    const game = currentGame(r);
+    const card = game.getPlayerState(me()).yourHand.find(c => c.id === cardId);
+    if (!card) throw new CardError('CARD_NOT_IN_HAND', 'Card not in your hand', { playerId: me(), cardIds: [cardId] });
+    game.discard(me(), card as Card);
+    finishRoundIfEnded(io, r, 'Round ended. Computing scores...');
+  }));
 
   // ---- show ----
-  socket.on('show', (payload) => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      room.game.show(socket.data.playerId!, payload);
-
-      const pub = room.game.getPublicState();
-      if (pub.status === 'ENDED') {
-        const results = room.game.computeFinalScores();
-        io.to(room.id).emit('toast', 'Second show completed. Game over.');
-        emitStateToAll(io, room);
-        io.to(room.id).emit('state', { results });
-        room.status = 'ENDED';
-      } else {
-        emitStateToAll(io, room);
-      }
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
-  });
+  socket.on('show', (payload, ack) => act(payload, ack, r => {
+    const { melds } = payload;
+    currentGame(r).show(me(), { melds });
+    finishRoundIfEnded(io, r, 'Final show completed. Round over.');
+  }));
 
-  // ---- getState ----
-  socket.on('getState', () => {
-    try {
-      const room = getRoomOrThrow(socket.data.roomId!);
-      const p = room.players.find(pp => pp.playerId === socket.data.playerId);
-      if (!p) throw new Error('Not seated');
-      const view = room.game.getPlayerState(p.playerId);
-      socket.emit('state', view);
-    } catch (e: any) { socket.emit('errorMsg', e.message); }
+  // ---- resumeSeat (take the seat back from a timeout stand-in bot) ----
+  socket.on('resumeSeat', (meta, ack) => act(meta, ack, r => {
+    const p = r.players.find(pp => pp.playerId === socket.data.playerId);
+    if (!p) throw new RoomError('NOT_SEATED', 'Not seated');
+    if (!p.standIn) throw new RoomError('NOT_STOOD_IN', 'No bot is playing for you');
+    p.bot = undefined;
+    p.standIn = false;
+    stopClock(r); // restarted below, now as a human turn
+    r.clock.timeouts[p.seat] = 0;
+    // A bot turn already scheduled for this seat must not fire
+    if (r.botTimer) { clearTimeout(r.botTimer); r.botTimer = undefined; }
+    io.to(r.id).emit('toast', `${p.name} is back`);
+    broadcastLobby(io, r);
+    emitStateToAll(io, r);
+  }));
+
+  // ---- getState / resync: the full state at the current version ----
+  const sendFullState = (ack?: Ack<ActionAck>) => respond(socket, ack, () => {
+    const r = room();
+    const p = r.players.find(pp => pp.playerId === socket.data.playerId);
+    if (!p) throw new RoomError('NOT_SEATED', 'Not seated');
+    if (p.socketId !== socket.id) throw new RoomError('NOT_SEATED', 'This connection no longer holds the seat');
+    currentGame(r);
+    sendPlayerState(io, r, p, true);
+    return { version: r.version };
   });
+  socket.on('getState', sendFullState);
+  socket.on('resync', sendFullState);
+
+  // ---- getLegalActions ----
+  socket.on('getLegalActions', (ack) => respond(socket, ack, () => {
+    const legal = currentGame(room()).getLegalActions(me());
+    socket.emit('legalActions', legal);
+    return legal;
+  }));
 
   socket.on('disconnect', () => {
     const roomId = socket.data.roomId;
     if (!roomId) return;
     const room = rooms.get(roomId);
     if (!room) return;
+    if (socket.data.spectator) {
+      room.spectators = room.spectators.filter(s => s.socketId !== socket.id);
+      broadcastLobby(io, room);
+      return;
+    }
     const p = room.players.find(pp => pp.playerId === socket.data.playerId);
     if (p && p.socketId === socket.id) {
-      p.socketId = undefined; // mark offline; allow reconnection later
+      p.socketId = undefined; // mark offline; allow reconnection within the grace period
+      startGrace(io, room, p);
       broadcastLobby(io, room);
     }
   });
 });
 
+restoreRooms(io);
+setInterval(() => sweepRooms(io), ROOM_SWEEP_MS).unref();
+
 const PORT = process.env.PORT || 8080;
 server.listen(PORT, () => {
   console.log(`Bucaro Socket.IO server listening on :${PORT}`);
 });
+
+export { app, io, server };
@@ -0,0 +1,57 @@
+/*
+Session tokens – proof that a socket may take a given seat.
+
+The server issues a token when a player first joins a room and requires it to
+rejoin. A token is `<payload>.<signature>`: base64url JSON plus an HMAC-SHA256
+over it, so clients can read it but not forge or alter it.
+
+Payload: { roomId, playerId, sid, exp }
+- sid: the seat's current session id. The server rotates it when a seat is
+  released (kick, grace period expired), which revokes every older token.
+- exp: absolute expiry (epoch ms).
+
+Set SESSION_SECRET so tokens survive a restart; without it a random secret is
+generated at startup.
+*/
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface SessionClaims {
+  roomId: string;
+  playerId: string;
+  sid: string;
+  exp: number;
+}
+
+const SECRET = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+
+export function newSessionId(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+export function signSessionToken(claims: SessionClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Claims of a well-formed, correctly signed, unexpired token; null otherwise. */
+export function verifySessionToken(token: unknown, now = Date.now()): SessionClaims | null {
+  if (typeof token !== 'string') return null;
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (typeof claims?.exp !== 'number' || claims.exp <= now) return null;
+  return claims;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', SECRET).update(payload).digest('base64url');
+}
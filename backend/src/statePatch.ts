@@ -0,0 +1,45 @@
+/*
+State patches – compact differences between two versions of a JSON view.
+
+The server keeps the last view it sent each player and, after the next action,
+sends only what changed:
+
+  { version, baseVersion, ops: [{ op: 'set', path, value } | { op: 'del', path }] }
+
+- Objects are compared key by key and arrays of equal length index by index,
+  so a single changed field costs one op.
+- An array whose length changed is replaced whole (hands, meld lists): cheaper
+  to send than a sequence of index shifts and trivial to apply.
+- A client applies a patch only if its own version equals baseVersion; on a gap
+  it asks the server for a full resync.
+*/
+
+import type { PatchOp, PatchPath } from './protocol';
+
+export type { PatchOp, PatchPath, StatePatch } from './protocol';
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Ops that turn `prev` into `next`; both must be JSON-safe values. */
+export function diffState(prev: unknown, next: unknown, path: PatchPath = []): PatchOp[] {
+  if (Object.is(prev, next)) return [];
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    return next.flatMap((v, i) => diffState(prev[i], v, [...path, i]));
+  }
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const ops: PatchOp[] = [];
+    for (const key of Object.keys(prev)) {
+      if (!(key in next) || next[key] === undefined) {
+        if (prev[key] !== undefined) ops.push({ op: 'del', path: [...path, key] });
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) continue;
+      ops.push(...diffState(prev[key], next[key], [...path, key]));
+    }
+    return ops;
+  }
+  if (path.length === 0) throw new Error('diffState needs two objects or arrays at the root');
+  return [{ op: 'set', path, value: next }];
+}
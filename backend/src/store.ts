@@ -0,0 +1,88 @@
+/*
+Room stores – where the server keeps room records between restarts.
+
+The server owns the live rooms (sockets, timers, bots) and hands the store a
+plain, JSON-safe record of each room after every change; at startup it rebuilds
+the live rooms from loadAll(). The store only needs the few fields below to be
+present; the rest of the record is the server's business.
+
+- MemoryRoomStore: records live as long as the process (the default).
+- FileRoomStore:   one JSON file per room in a directory; writes go to a temp
+                   file first and are renamed into place, so a crash never
+                   leaves a half-written room behind.
+
+createRoomStore() picks FileRoomStore when ROOM_STORE_DIR is set.
+*/
+
+import fs from 'fs';
+import path from 'path';
+
+export interface StoredRoom {
+  id: string;
+  status: string;
+  createdAt: number;      // epoch ms
+  lastActivityAt: number; // epoch ms of the last saved change
+}
+
+export interface RoomStore<R extends StoredRoom = StoredRoom> {
+  loadAll(): R[];
+  save(record: R): void;
+  delete(id: string): void;
+}
+
+export class MemoryRoomStore<R extends StoredRoom = StoredRoom> implements RoomStore<R> {
+  private readonly records = new Map<string, R>();
+
+  loadAll(): R[] {
+    return [...this.records.values()];
+  }
+
+  save(record: R): void {
+    this.records.set(record.id, record);
+  }
+
+  delete(id: string): void {
+    this.records.delete(id);
+  }
+}
+
+export class FileRoomStore<R extends StoredRoom = StoredRoom> implements RoomStore<R> {
+  constructor(readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /** Every readable record; unreadable files are reported and skipped. */
+  loadAll(): R[] {
+    const out: R[] = [];
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        out.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')));
+      } catch (e: any) {
+        console.error(`Skipping unreadable room file ${file}: ${e.message}`);
+      }
+    }
+    return out;
+  }
+
+  save(record: R): void {
+    const file = this.fileFor(record.id);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(record));
+    fs.renameSync(tmp, file);
+  }
+
+  delete(id: string): void {
+    fs.rmSync(this.fileFor(id), { force: true });
+  }
+
+  private fileFor(id: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) throw new Error(`Invalid room id for storage: ${id}`);
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+export function createRoomStore<R extends StoredRoom>(): RoomStore<R> {
+  const dir = process.env.ROOM_STORE_DIR;
+  return dir ? new FileRoomStore<R>(dir) : new MemoryRoomStore<R>();
+}
@@ -0,0 +1,67 @@
+/*
+Bots playing whole tables on their own: every turn is legal, hands out the
+turn, and no card is lost or duplicated; a bot game is reproducible.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroBot, type BotDifficulty } from '../src/bots/BucaroBot';
+import { BucaroGame } from '../src/engine/BucaroGame';
+import { PLAYERS, allCards, arrange, cards, current, dealtGame } from './helpers/games';
+
+const SEEDS = ['s0', 's1', 's2', 's3', 's4', 's5'];
+
+/** Bots play until the game ends or the closed pile runs out; returns the journal length. */
+function playOut(game: BucaroGame, difficulties: BotDifficulty[], seed: string): number {
+  const bots = PLAYERS.map((id, i) => new BucaroBot(id, difficulties[i], seed));
+  const total = allCards(game).length;
+  for (let turn = 0; turn < 400; turn++) {
+    const pub = game.getPublicState();
+    if (pub.status !== 'ACTIVE' || pub.closedCount === 0) break;
+    const mover = current(game);
+    bots[pub.currentTurn].playTurn(game);
+    const after = game.getPublicState();
+    if (after.status === 'ACTIVE') assert.notEqual(current(game), mover, `seed ${seed}: turn not passed`);
+
+    const ids = allCards(game).map(c => c.id);
+    assert.equal(ids.length, total, `seed ${seed}: card count changed`);
+    assert.equal(new Set(ids).size, total, `seed ${seed}: duplicated card`);
+  }
+  return game.toSnapshot().journal.length;
+}
+
+for (const difficulty of ['easy', 'strong'] as const) {
+  test(`${difficulty} bots play legal turns and conserve cards`, () => {
+    for (const seed of SEEDS) {
+      const game = dealtGame({ rngSeed: seed });
+      assert.ok(playOut(game, [difficulty, difficulty, difficulty, difficulty], seed) > 40);
+    }
+  });
+}
+
+test('mixed tables play too, and a bot game is reproducible', () => {
+  const mix: BotDifficulty[] = ['easy', 'strong', 'strong', 'easy'];
+  const a = dealtGame({ rngSeed: 'mix', clock: () => 0 });
+  const b = dealtGame({ rngSeed: 'mix', clock: () => 0 });
+  playOut(a, mix, 'mix');
+  playOut(b, mix, 'mix');
+  assert.deepEqual(a.toSnapshot(), b.toSnapshot());
+});
+
+test('a bot only plays its own turn', () => {
+  const game = dealtGame({ rngSeed: 'own' });
+  const other = PLAYERS.find(p => p !== current(game))!;
+  assert.throws(() => new BucaroBot(other, 'strong', 'own').playTurn(game));
+});
+
+test('a bot does not place melds that would leave it only jokers to discard onto a joker', () => {
+  for (const difficulty of ['easy', 'strong'] as const) {
+    const hand = cards('3H', '4H', '5H', '2S');
+    const game = arrange(dealtGame({ rngSeed: 'strand' }), 'p0', hand, { drawn: false, open: cards('2D'), closed: cards('JK') });
+    new BucaroBot('p0', difficulty, 'strand').playTurn(game);
+    assert.notEqual(current(game), 'p0');
+    assert.equal(game.getPlayerState('p0').yourHand.filter(c => c.suit === 'H').length, 2);
+  }
+});
@@ -0,0 +1,54 @@
+/*
+Seeded randomness: GameConfig.rngSeed fixes the deal, every card and meld id,
+and with the same actions every later state.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame } from '../src/engine/BucaroGame';
+import { Rng } from '../src/engine/rng';
+import { PLAYERS, dealtGame, drawAndDiscard } from './helpers/games';
+
+const views = (game: BucaroGame) => PLAYERS.map(id => game.getPlayerState(id));
+
+test('Rng repeats its sequence for a seed and can be resumed from its state', () => {
+  const a = new Rng('seed');
+  const b = new Rng('seed');
+  const first = [a.next(), a.int(10), a.id('c')];
+  assert.deepEqual([b.next(), b.int(10), b.id('c')], first);
+  assert.notEqual(new Rng('other').next(), new Rng('seed').next());
+
+  const resumed = new Rng('ignored');
+  resumed.state = a.state;
+  assert.deepEqual(resumed.shuffle([1, 2, 3, 4, 5, 6]), a.shuffle([1, 2, 3, 4, 5, 6]));
+});
+
+test('the same seed deals the same hands with the same card ids', () => {
+  assert.deepEqual(views(dealtGame({ rngSeed: 'deal' })), views(dealtGame({ rngSeed: 'deal' })));
+  assert.notDeepEqual(
+    dealtGame({ rngSeed: 'deal' }).getPlayerState('p0').yourHand,
+    dealtGame({ rngSeed: 'another deal' }).getPlayerState('p0').yourHand,
+  );
+});
+
+test('a game without a seed picks one that reproduces it', () => {
+  const game = dealtGame();
+  assert.ok(game.seed);
+  assert.deepEqual(views(dealtGame({ rngSeed: game.seed })), views(game));
+});
+
+test('card ids are unique across both decks', () => {
+  const game = dealtGame({ rngSeed: 'ids' });
+  const dealt = PLAYERS.flatMap(id => game.getPlayerState(id).yourHand.map(c => c.id));
+  assert.equal(new Set(dealt).size, dealt.length);
+});
+
+test('the same seed and actions lead to the same state', () => {
+  const a = dealtGame({ rngSeed: 'play' });
+  const b = dealtGame({ rngSeed: 'play' });
+  drawAndDiscard(a, 12);
+  drawAndDiscard(b, 12);
+  assert.deepEqual(views(a), views(b));
+});
@@ -0,0 +1,98 @@
+/*
+Rule errors: each violation throws the right BucaroRuleError subclass with a
+stable code and the offending ids, getLegalActions reports the same codes, and
+a rejected call leaves the game untouched.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BucaroGame, BucaroRuleError, CardError, MeldError, SetupError, TurnError,
+  type RuleErrorCode, type RuleErrorDetails,
+} from '../src/engine/BucaroGame';
+import { PLAYERS, arrange, cards, current, dealtGame } from './helpers/games';
+
+/** Asserts `fn` throws a `type` error with `code` (and, if given, these details). */
+function throwsCode(
+  fn: () => void, type: abstract new (...args: never[]) => BucaroRuleError, code: RuleErrorCode, details?: RuleErrorDetails,
+) {
+  assert.throws(fn, (e: unknown) => {
+    assert.ok(e instanceof type, `expected ${type.name}, got ${e}`);
+    assert.equal(e.code, code);
+    if (details) assert.deepEqual(e.details, details);
+    return true;
+  });
+}
+
+test('turn order violations are TurnErrors', () => {
+  const game = dealtGame({ rngSeed: 'turns' });
+  const mover = current(game);
+  const other = PLAYERS.find(p => p !== mover)!;
+  throwsCode(() => game.drawFromClosed(other), TurnError, 'NOT_YOUR_TURN');
+  throwsCode(() => game.placeMelds(mover, []), TurnError, 'MUST_DRAW_FIRST');
+  throwsCode(() => game.drawFromClosed('ghost'), TurnError, 'UNKNOWN_PLAYER');
+  game.drawFromClosed(mover);
+  throwsCode(() => game.drawFromClosed(mover), TurnError, 'ALREADY_DREW');
+  assert.equal(game.getLegalActions(mover).drawClosed.code, 'ALREADY_DREW');
+});
+
+test('lobby and setup problems are SetupErrors', () => {
+  const game = new BucaroGame({ rngSeed: 'setup' });
+  throwsCode(() => game.startGame(), SetupError, 'NEED_FOUR_PLAYERS');
+  for (const id of PLAYERS) game.addPlayer(id, id);
+  throwsCode(() => game.addPlayer('p4', 'late'), SetupError, 'LOBBY_FULL');
+  throwsCode(() => new BucaroGame({ rules: { showLength: 99 } }), SetupError, 'INVALID_CONFIG');
+  throwsCode(() => new BucaroGame({ preset: 'nope' as never }), SetupError, 'INVALID_CONFIG');
+  throwsCode(() => game.computeFinalScores(), SetupError, 'GAME_NOT_ENDED');
+});
+
+test('meld and card errors carry the offending ids and payload position', () => {
+  const [h3, h4, h5, c9, sK] = cards('3H', '4H', '5H', '9C', 'KS');
+  const game = arrange(dealtGame({ rngSeed: 'melds' }), 'p0', [h3, h4, h5, c9, sK]);
+
+  throwsCode(() => game.placeMelds('p0', [{ cardIds: [h3.id, h4.id, h5.id] }, { cardIds: [c9.id, sK.id, 'ghost'] }]),
+    CardError, 'CARD_NOT_IN_HAND', { playerId: 'p0', cardIds: ['ghost'], meldIndex: 1 });
+  throwsCode(() => game.placeMelds('p0', [{ cardIds: [h3.id, c9.id, sK.id] }]),
+    MeldError, 'INVALID_MELD', { playerId: 'p0', cardIds: [h3.id, c9.id, sK.id], meldIndex: 0 });
+  assert.equal(game.getPlayerState('p0').yourHand.length, 5);
+
+  game.placeMelds('p0', [{ cardIds: [h3.id, h4.id, h5.id] }]);
+  const meldId = game.getPlayerState('p0').teamBoards[0].melds[0].id;
+  throwsCode(() => game.addCardsToMeld('p0', [{ meldId: 'm?', cardIds: [c9.id] }]),
+    MeldError, 'MELD_NOT_FOUND', { playerId: 'p0', meldId: 'm?' });
+  throwsCode(() => game.addCardsToMeld('p0', [{ meldId, cardIds: [sK.id] }]),
+    MeldError, 'INVALID_ADDITION', { playerId: 'p0', cardIds: [sK.id], meldId });
+});
+
+test('a card used in two additions is refused before anything moves', () => {
+  const [h3, h4, h5, s6, s7, s8, joker, kd] = cards('3H', '4H', '5H', '6S', '7S', '8S', 'JK', 'KD');
+  const game = arrange(dealtGame({ rngSeed: 'dupes' }), 'p0', [h3, h4, h5, s6, s7, s8, joker, kd]);
+  game.placeMelds('p0', [{ cardIds: [h3.id, h4.id, h5.id] }, { cardIds: [s6.id, s7.id, s8.id] }]);
+  const [runH, runS] = game.getPlayerState('p0').teamBoards[0].melds.map(m => m.id);
+  const before = game.toSnapshot();
+
+  throwsCode(() => game.addCardsToMeld('p0', [{ meldId: runH, cardIds: [joker.id] }, { meldId: runS, cardIds: [joker.id] }]),
+    CardError, 'DUPLICATE_CARD', { playerId: 'p0', cardIds: [joker.id], meldId: runS });
+  throwsCode(() => game.addCardsToMeld('p0', [{ meldId: runH, cardIds: [joker.id, joker.id] }]),
+    CardError, 'DUPLICATE_CARD');
+  assert.deepEqual(game.toSnapshot(), before);
+});
+
+test('a joker on a joker is a CardError naming both cards, and serializes to the wire format', () => {
+  const [joker, ten] = cards('2S', '10D');
+  const [top] = cards('JK');
+  const game = arrange(dealtGame({ rngSeed: 'joker' }), 'p0', [joker, ten], { open: [top] });
+  try {
+    game.discard('p0', joker);
+    assert.fail('discard should throw');
+  } catch (e) {
+    assert.ok(e instanceof CardError);
+    assert.deepEqual(JSON.parse(JSON.stringify(e)), {
+      code: 'JOKER_ON_JOKER',
+      message: e.message,
+      details: { playerId: 'p0', cardIds: [joker.id, top.id] },
+    });
+  }
+});
@@ -0,0 +1,87 @@
+/*
+Closed-pile exhaustion: classic play ends the game, the 'reshuffle' house rule
+turns the open pile under its top card into a new closed pile (up to
+maxReshuffles times), and the end reason is recorded either way.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, type GameConfigInput } from '../src/engine/BucaroGame';
+import { allCards, dealtGame, drawAndDiscard } from './helpers/games';
+
+/** A dealt game whose closed pile is down to `closedLeft` cards (the rest moved under the open top). */
+function nearlyDrawn(config: GameConfigInput, closedLeft: number, reshuffles = 0): BucaroGame {
+  const s = dealtGame(config).toSnapshot();
+  const moved = s.closed.splice(0, s.closed.length - closedLeft);
+  s.open = [...moved, ...s.open];
+  s.reshuffles = reshuffles;
+  return BucaroGame.fromSnapshot(s, { clock: () => 0 });
+}
+
+test('classic play ends the game when the last closed card is drawn', () => {
+  const game = nearlyDrawn({ rngSeed: 'end' }, 1);
+  drawAndDiscard(game, 1);
+  const pub = game.getPublicState();
+  assert.equal(pub.status, 'ENDED');
+  assert.equal(pub.endReason, 'CLOSED_PILE_EXHAUSTED');
+  assert.equal(game.computeFinalScores().endReason, 'CLOSED_PILE_EXHAUSTED');
+});
+
+test('under reshuffle the open pile becomes the closed pile, keeping its top', () => {
+  const game = nearlyDrawn({ rngSeed: 'reshuffle', rules: { onClosedExhausted: 'reshuffle' } }, 1);
+  const total = allCards(game).length;
+  const openBefore = game.getPublicState().openCount;
+  drawAndDiscard(game, 1);
+
+  const pub = game.getPublicState();
+  assert.equal(pub.status, 'ACTIVE');
+  assert.equal(pub.endReason, null);
+  assert.equal(pub.reshuffles, 1);
+  assert.equal(pub.openCount, 1);
+  assert.equal(pub.closedCount, openBefore); // the old pile plus the discard, minus the new top
+  assert.equal(allCards(game).length, total);
+  drawAndDiscard(game, 3);
+  assert.equal(game.getPublicState().status, 'ACTIVE');
+
+  // Reshuffles come from the game's PRNG, so they replay identically
+  const again = nearlyDrawn({ rngSeed: 'reshuffle', rules: { onClosedExhausted: 'reshuffle' } }, 1);
+  drawAndDiscard(again, 4);
+  assert.deepEqual(again.toSnapshot().closed, game.toSnapshot().closed);
+});
+
+test('after maxReshuffles the next exhaustion ends the game', () => {
+  const rules = { onClosedExhausted: 'reshuffle' as const, maxReshuffles: 2 };
+  const game = nearlyDrawn({ rngSeed: 'max', rules }, 1, 2);
+  drawAndDiscard(game, 1);
+  assert.deepEqual([game.getPublicState().status, game.getPublicState().endReason], ['ENDED', 'CLOSED_PILE_EXHAUSTED']);
+});
+
+test('with only the open top left there is nothing to reshuffle', () => {
+  const s = dealtGame({ rngSeed: 'bare', rules: { onClosedExhausted: 'reshuffle' } }).toSnapshot();
+  s.closed = s.closed.slice(-1);
+  s.open = [];
+  const game = BucaroGame.fromSnapshot(s);
+  drawAndDiscard(game, 1);
+  assert.equal(game.getPublicState().endReason, 'NO_CARDS_TO_RESHUFFLE');
+});
+
+test('the exhaustion rules are validated', () => {
+  assert.throws(() => dealtGame({ rules: { onClosedExhausted: 'ignore' as never } }), /onClosedExhausted/);
+  assert.throws(() => dealtGame({ rules: { maxReshuffles: -1 } }), /maxReshuffles/);
+});
+
+test('version 4 snapshots keep ending on exhaustion and get an end reason', () => {
+  const ended = nearlyDrawn({ rngSeed: 'v4', rules: { onClosedExhausted: 'reshuffle' } }, 0);
+  const v4 = JSON.parse(JSON.stringify(ended.toSnapshot()));
+  v4.version = 4;
+  v4.status = 'ENDED';
+  for (const key of ['reshuffles', 'endReason']) delete v4[key];
+  for (const key of ['onClosedExhausted', 'maxReshuffles']) delete v4.config.rules[key];
+
+  const restored = BucaroGame.fromSnapshot(v4).toSnapshot();
+  assert.equal(restored.endReason, 'CLOSED_PILE_EXHAUSTED');
+  assert.equal(restored.reshuffles, 0);
+  assert.equal(restored.config.rules.onClosedExhausted, 'end');
+});
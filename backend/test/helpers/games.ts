@@ -0,0 +1,101 @@
+/*
+Shared setup for engine tests: four players p0..p3 (teams 0,1,0,1) at a dealt
+table.
+*/
+
+import { BucaroGame, type Card, type GameConfigInput } from '../../src/engine/BucaroGame';
+
+export const PLAYERS = ['p0', 'p1', 'p2', 'p3'];
+
+/** A started game with p0..p3 seated in join order. */
+export function dealtGame(config: GameConfigInput = {}): BucaroGame {
+  const game = new BucaroGame(config);
+  for (const id of PLAYERS) game.addPlayer(id, id.toUpperCase());
+  game.startGame();
+  return game;
+}
+
+/** Id of the player whose turn it is. */
+export function current(game: BucaroGame): string {
+  return PLAYERS[game.getPublicState().currentTurn];
+}
+
+/** Every card in the game, wherever it is (hands, piles, boards). */
+export function allCards(game: BucaroGame): Card[] {
+  const s = game.toSnapshot();
+  return [
+    ...s.players.flatMap(p => p.hand), ...s.closed, ...s.open, ...s.extraShowStack, ...s.deck,
+    ...s.teamBoards.flatMap(b => b.melds.flatMap(m => m.cards)),
+  ];
+}
+
+const jokerLike = (c: Card) => c.suit === 'JOKER' || c.rank === 2;
+
+/**
+ * Play `turns` turns of "draw closed, discard the drawn card" (a natural card
+ * instead when the drawn joker may not go on the open top).
+ */
+export function drawAndDiscard(game: BucaroGame, turns: number) {
+  for (let t = 0; t < turns; t++) {
+    const playerId = current(game);
+    const before = new Set(game.getPlayerState(playerId).yourHand.map(c => c.id));
+    game.drawFromClosed(playerId);
+    const { yourHand, openTop } = game.getPlayerState(playerId);
+    const drawn = yourHand.find(c => !before.has(c.id))!;
+    const blocked = openTop && jokerLike(openTop) && jokerLike(drawn);
+    game.discard(playerId, blocked ? yourHand.find(c => !jokerLike(c))! : drawn);
+  }
+}
+
+/** Ids of three natural cards of one suit in a row (a pure sequence), if the hand has them. */
+export function pureRun(hand: Card[]): string[] | null {
+  for (const c of hand) {
+    if (jokerLike(c) || c.rank < 3 || c.rank > 11) continue;
+    const next = [c.rank + 1, c.rank + 2].map(r => hand.find(h => h.suit === c.suit && h.rank === r));
+    if (next.every(Boolean)) return [c.id, ...next.map(h => h!.id)];
+  }
+  return null;
+}
+
+/** Draw-and-discard turns until the player to move holds a pure sequence; returns its ids. */
+export function turnWithPureRun(game: BucaroGame): string[] {
+  for (let t = 0; t < 200; t++) {
+    const run = pureRun(game.getPlayerState(current(game)).yourHand);
+    if (run) return run;
+    drawAndDiscard(game, 1);
+  }
+  throw new Error('No pure sequence turned up');
+}
+
+const RANKS: Record<string, number> = { A: 1, J: 11, Q: 12, K: 13 };
+let cardSerial = 0;
+
+/** Cards from short names: 'AS', '10H', 'KD', '2C' (a joker), 'JK' (a printed joker). */
+export function cards(...names: string[]): Card[] {
+  return names.map(name => {
+    const id = `t_${name}_${cardSerial++}`;
+    if (name === 'JK') return { suit: 'JOKER', rank: 0, id };
+    const rank = name.slice(0, -1);
+    return { suit: name.slice(-1) as Card['suit'], rank: RANKS[rank] ?? Number(rank), id };
+  });
+}
+
+/**
+ * The same table with `playerId` to move holding exactly `hand` (the cards it
+ * held go nowhere; tests that count cards must not use this). `drawn`: the
+ * player has already drawn this turn (default true); `open` replaces the open
+ * pile and `closed` goes on top of the closed pile (last card drawn first).
+ */
+export function arrange(
+  game: BucaroGame, playerId: string, hand: Card[],
+  opts: { drawn?: boolean; open?: Card[]; closed?: Card[] } = {},
+): BucaroGame {
+  const s = game.toSnapshot();
+  const idx = s.players.findIndex(p => p.id === playerId);
+  s.players[idx].hand = hand;
+  s.currentTurn = idx;
+  s.drewThisTurn = opts.drawn ?? true;
+  if (opts.open) s.open = opts.open;
+  if (opts.closed) s.closed.push(...opts.closed);
+  return BucaroGame.fromSnapshot(s, { clock: () => 0 });
+}
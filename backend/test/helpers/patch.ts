@@ -0,0 +1,18 @@
+/*
+Applies statePatch ops to a copy of a view, as the frontend does
+(frontend/src/statePatch.ts), so tests can follow a player's state.
+*/
+
+import type { PatchOp } from '../../src/statePatch';
+
+export function applyPatch<T>(view: T, ops: PatchOp[]): T {
+  const next = structuredClone(view) as any;
+  for (const op of ops) {
+    let target = next;
+    for (const key of op.path.slice(0, -1)) target = target[key];
+    const last = op.path[op.path.length - 1];
+    if (op.op === 'set') target[last] = op.value;
+    else delete target[last];
+  }
+  return next;
+}
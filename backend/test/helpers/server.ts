@@ -0,0 +1,102 @@
+/*
+Boots src/server.ts on a free port for a test file and connects clients to it.
+
+The server is a module singleton, so each test file gets one server (node
+--test runs every file in its own process). Set env before the first boot.
+
+Players get their state as a full view and then as statePatch ops; each client
+keeps its current view (see views/nextState) the way the frontend does.
+Table actions carry an actionId and the version the client last saw; sendAction
+fills both in.
+*/
+
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { io as connect, type Socket } from 'socket.io-client';
+import type { StatePatch } from '../../src/statePatch';
+import { applyPatch } from './patch';
+
+export type Client = Socket;
+
+/** The latest state view of each client, full states and patches applied. */
+export const views = new WeakMap<Client, any>();
+/** The latest room version each client has seen, from lobby, state or patch. */
+const versions = new WeakMap<Client, number>();
+let actionCount = 0;
+
+export async function bootServer(env: Record<string, string> = {}) {
+  Object.assign(process.env, { PORT: '0', BOT_DELAY_MS: '5', ...env });
+  const mod = await import('../../src/server');
+  if (!mod.server.listening) await once(mod.server, 'listening');
+  const { port } = mod.server.address() as AddressInfo;
+  return { ...mod, url: `http://127.0.0.1:${port}` };
+}
+
+export async function client(url: string): Promise<Client> {
+  const socket = connect(url, { transports: ['websocket'], forceNew: true });
+  socket.on('lobby', (lobby: { version: number }) => versions.set(socket, lobby.version));
+  socket.on('state', view => {
+    views.set(socket, view);
+    if (typeof view.version === 'number') versions.set(socket, view.version);
+  });
+  socket.on('statePatch', (patch: StatePatch) => {
+    views.set(socket, applyPatch(views.get(socket), patch.ops));
+    versions.set(socket, patch.version);
+  });
+  await new Promise<void>(resolve => socket.once('connect', () => resolve()));
+  return socket;
+}
+
+/** A fresh actionId, made against the latest version the client saw. */
+export function actionMeta(socket: Client) {
+  return { actionId: `test-${++actionCount}`, expectedVersion: versions.get(socket) ?? 0 };
+}
+
+/** Emit a table action with actionMeta filled in. */
+export function sendAction(socket: Client, event: string, payload: object = {}) {
+  socket.emit(event, { ...actionMeta(socket), ...payload });
+}
+
+/** Next `event` on `socket` whose payload satisfies `match` (5 s limit). */
+export function next<T = any>(socket: Client, event: string, match: (payload: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, handler);
+      reject(new Error(`No matching ${event} within 5s`));
+    }, 5000);
+    const handler = (payload: T) => {
+      if (!match(payload)) return;
+      clearTimeout(timer);
+      socket.off(event, handler);
+      resolve(payload);
+    };
+    socket.on(event, handler);
+  });
+}
+
+/** The client's view once a state or patch leaves it satisfying `match` (5 s limit). */
+export function nextState<T = any>(socket: Client, match: (view: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off('state', check).off('statePatch', check);
+      reject(new Error('No matching state within 5s'));
+    }, 5000);
+    const check = () => {
+      const view = views.get(socket);
+      if (!match(view)) return;
+      clearTimeout(timer);
+      socket.off('state', check).off('statePatch', check);
+      resolve(view);
+    };
+    socket.on('state', check).on('statePatch', check);
+  });
+}
+
+export async function createRoom(url: string, body: object = {}): Promise<string> {
+  const res = await fetch(`${url}/rooms`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return (await res.json()).roomId;
+}
@@ -0,0 +1,100 @@
+/*
+Joker assignments: what each board joker stands for, swapping a natural card
+for it, board jokers keeping their rank, and the v1 -> v2 snapshot migration
+that derives assignments for old games.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, CardError, MeldError, type Card, type MeldPayload } from '../src/engine/BucaroGame';
+import { arrange, cards, dealtGame } from './helpers/games';
+
+/** p0 to move, holding a pure 9-10-J of spades (for the team requirement) plus `extra`. */
+function table(extra: Card[]) {
+  const pure = cards('9S', '10S', 'JS');
+  const game = arrange(dealtGame({ rngSeed: 'jokers' }), 'p0', [...pure, ...extra, ...cards('KD')]);
+  const place = (meld: MeldPayload) => {
+    game.placeMelds('p0', [{ cardIds: pure.map(c => c.id) }, meld]);
+    return game.getPlayerState('p0').teamBoards[0].melds[1];
+  };
+  return { game, place };
+}
+
+test('a sequence joker fills the gap, else the high end, unless jokerRank says otherwise', () => {
+  const [h5, joker, h7] = cards('5H', 'JK', '7H');
+  assert.deepEqual(table([h5, joker, h7]).place({ cardIds: [h5.id, joker.id, h7.id] }).jokerAssignments,
+    [{ jokerId: joker.id, rank: 6, suit: 'H' }]);
+
+  const [d5, d6, two] = cards('5D', '6D', '2C');
+  assert.deepEqual(table([d5, d6, two]).place({ cardIds: [d5.id, d6.id, two.id] }).jokerAssignments,
+    [{ jokerId: two.id, rank: 7, suit: 'D' }]);
+  assert.deepEqual(table([d5, d6, two]).place({ cardIds: [d5.id, d6.id, two.id], jokerRank: 4 }).jokerAssignments,
+    [{ jokerId: two.id, rank: 4, suit: 'D' }]);
+
+  const { game } = table([d5, d6, two]);
+  assert.throws(() => game.placeMelds('p0', [{ cardIds: [d5.id, d6.id, two.id], jokerRank: 9 }]),
+    (e: unknown) => e instanceof MeldError && e.code === 'INVALID_JOKER_POSITION');
+});
+
+test('a set joker stands for the set rank in any suit', () => {
+  const [c7, d7, joker] = cards('7C', '7D', 'JK');
+  assert.deepEqual(table([c7, d7, joker]).place({ cardIds: [c7.id, d7.id, joker.id] }).jokerAssignments,
+    [{ jokerId: joker.id, rank: 7, suit: null }]);
+});
+
+test('swapping the matching natural card takes the joker into hand and purifies the meld', () => {
+  const [h5, joker, h7, h6, h8] = cards('5H', 'JK', '7H', '6H', '8H');
+  const { game, place } = table([h5, joker, h7, h6, h8]);
+  const meld = place({ cardIds: [h5.id, joker.id, h7.id] });
+
+  assert.throws(() => game.swapJoker('p0', { meldId: meld.id, cardId: h8.id }),
+    (e: unknown) => e instanceof MeldError && e.code === 'JOKER_SWAP_MISMATCH');
+  game.swapJoker('p0', { meldId: meld.id, cardId: h6.id });
+
+  const after = game.getPlayerState('p0');
+  const swapped = after.teamBoards[0].melds[1];
+  assert.equal(swapped.type, 'SequencePure');
+  assert.deepEqual(swapped.cards.map(c => c.id), [h5.id, h6.id, h7.id]);
+  assert.deepEqual(swapped.jokerAssignments, []);
+  assert.ok(after.yourHand.some(c => c.id === joker.id));
+  assert.equal(game.toSnapshot().journal.at(-1)?.type, 'swapJoker');
+});
+
+test('a board joker keeps its rank: 5-(6)-7 cannot take a natural 6 but takes an 8', () => {
+  const [h5, joker, h7, h6, h8] = cards('5H', 'JK', '7H', '6H', '8H');
+  const { game, place } = table([h5, joker, h7, h6, h8]);
+  const meld = place({ cardIds: [h5.id, joker.id, h7.id] });
+  assert.throws(() => game.addCardsToMeld('p0', [{ meldId: meld.id, cardIds: [h6.id] }]),
+    (e: unknown) => e instanceof MeldError && e.code === 'INVALID_ADDITION');
+  game.addCardsToMeld('p0', [{ meldId: meld.id, cardIds: [h8.id] }]);
+});
+
+test('a card named twice in one placement is refused, and open-pile cards are not in hand', () => {
+  const [h5, h6, h7] = cards('5H', '6H', '7H');
+  const { game } = table([h5, h6, h7]);
+  const before = game.toSnapshot();
+  assert.throws(() => game.placeMelds('p0', [{ cardIds: [h5.id, h6.id, h7.id] }, { cardIds: [h5.id, h6.id, h7.id] }]),
+    (e: unknown) => e instanceof CardError && e.code === 'DUPLICATE_CARD' && e.details.meldIndex === 1);
+
+  const openTop = game.getPublicState().openTop!;
+  assert.throws(() => game.placeMelds('p0', [{ cardIds: [h5.id, h6.id, openTop.id] }]),
+    (e: unknown) => e instanceof CardError && e.code === 'CARD_NOT_IN_HAND');
+  assert.deepEqual(game.toSnapshot(), before);
+});
+
+test('version 1 snapshots get joker assignments derived from the board', () => {
+  const [h5, joker, h7] = cards('5H', 'JK', '7H');
+  const { game, place } = table([h5, joker, h7]);
+  place({ cardIds: [h5.id, joker.id, h7.id] });
+  const current = game.toSnapshot();
+
+  const v1 = JSON.parse(JSON.stringify(current));
+  v1.version = 1;
+  for (const board of v1.teamBoards) for (const m of board.melds) delete m.jokerAssignments;
+
+  const restored = BucaroGame.fromSnapshot(v1, { clock: () => 0 }).toSnapshot();
+  assert.deepEqual(restored.teamBoards, current.teamBoards);
+  assert.equal(restored.version, current.version);
+});
@@ -0,0 +1,62 @@
+/*
+Action journal and replay: every accepted action is recorded with a sequence
+number and a timestamp, and BucaroGame.replay rebuilds the same game from it.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame } from '../src/engine/BucaroGame';
+import { PLAYERS, current, dealtGame, drawAndDiscard, turnWithPureRun } from './helpers/games';
+
+const views = (game: BucaroGame) => PLAYERS.map(id => game.getPlayerState(id));
+
+test('accepted actions are journaled in order with the injected clock', () => {
+  let now = 1000;
+  const game = dealtGame({ rngSeed: 'journal', clock: () => now++ });
+  drawAndDiscard(game, 2);
+  const journal = game.getJournal();
+  assert.deepEqual(journal.map(a => a.type), [
+    'addPlayer', 'addPlayer', 'addPlayer', 'addPlayer', 'startGame', 'drawFromClosed', 'discard', 'drawFromClosed', 'discard',
+  ]);
+  assert.deepEqual(journal.map(a => a.seq), journal.map((_, i) => i));
+  assert.deepEqual(journal.map(a => a.at), journal.map((_, i) => 1000 + i));
+});
+
+test('replaying the journal rebuilds the game, timestamps included', () => {
+  const game = dealtGame({ rngSeed: 'replay', clock: () => 42 });
+  drawAndDiscard(game, 20);
+  const replayed = BucaroGame.replay(game.getConfig(), game.getJournal());
+  assert.deepEqual(views(replayed), views(game));
+  assert.deepEqual(replayed.getJournal(), game.getJournal());
+});
+
+test('a replay can stop after any step', () => {
+  const game = dealtGame({ rngSeed: 'steps' });
+  const atDeal = views(game);
+  drawAndDiscard(game, 4);
+  assert.deepEqual(views(BucaroGame.replay(game.getConfig(), game.getJournal(), { steps: 5 })), atDeal);
+  assert.throws(() => BucaroGame.replay(game.getConfig(), game.getJournal(), { steps: 99 }));
+});
+
+test('an illegal record fails the replay like it fails live play', () => {
+  const game = dealtGame({ rngSeed: 'illegal' });
+  const journal = game.getJournal();
+  const wrongPlayer = PLAYERS.find(id => id !== current(game))!;
+  assert.throws(() => BucaroGame.replay(game.getConfig(), [...journal, { type: 'drawFromClosed', playerId: wrongPlayer }]));
+});
+
+test('a rejected action leaves no trace, so the replay still matches', () => {
+  const game = dealtGame({ rngSeed: 'rejected', clock: () => 0 });
+  const run = turnWithPureRun(game);
+  const playerId = current(game);
+  game.drawFromClosed(playerId);
+  const stray = game.getPlayerState(playerId).yourHand.find(c => !run.includes(c.id))!;
+  // The first meld is fine, the second is not: nothing may change, not even the PRNG
+  assert.throws(() => game.placeMelds(playerId, [{ cardIds: run }, { cardIds: [stray.id] }]));
+  game.placeMelds(playerId, [{ cardIds: run }]);
+
+  const replayed = BucaroGame.replay(game.getConfig(), game.getJournal());
+  assert.deepEqual(views(replayed), views(game));
+});
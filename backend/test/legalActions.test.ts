@@ -0,0 +1,90 @@
+/*
+getLegalActions: turn and draw preconditions, meld and addition suggestions,
+and the joker-on-joker discard rule. Suggestions are checked against the real
+mutating calls, so the two cannot drift apart.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, MeldType } from '../src/engine/BucaroGame';
+import { PLAYERS, arrange, cards, current, dealtGame } from './helpers/games';
+
+const clone = (game: BucaroGame) => BucaroGame.fromSnapshot(game.toSnapshot(), { clock: () => 0 });
+
+test('only the player to move may act, and only after drawing may they place or discard', () => {
+  const game = dealtGame({ rngSeed: 'legal' });
+  const mover = current(game);
+  const other = PLAYERS.find(p => p !== mover)!;
+
+  const idle = game.getLegalActions(other);
+  assert.equal(idle.yourTurn, false);
+  for (const check of [idle.drawClosed, idle.drawOpen, idle.place, idle.discard]) {
+    assert.deepEqual(check, { allowed: false, code: 'NOT_YOUR_TURN', reason: 'Not your turn' });
+  }
+
+  let legal = game.getLegalActions(mover);
+  assert.equal(legal.yourTurn, true);
+  assert.deepEqual(legal.drawClosed, { allowed: true });
+  assert.deepEqual(legal.place, { allowed: false, code: 'MUST_DRAW_FIRST', reason: 'Must draw before placing' });
+  assert.deepEqual(legal.discard, { allowed: false, code: 'MUST_DRAW_FIRST', reason: 'Must draw before discarding' });
+
+  game.drawFromClosed(mover);
+  legal = game.getLegalActions(mover);
+  assert.deepEqual(legal.drawClosed, { allowed: false, code: 'ALREADY_DREW', reason: 'Already drew this turn' });
+  assert.deepEqual(legal.place, { allowed: true });
+  assert.deepEqual(legal.discard, { allowed: true });
+  assert.throws(() => game.getLegalActions('nobody'));
+});
+
+test('open draws are offered exactly when the top card can be placed at once', () => {
+  const hand = cards('3H', '4H', '9C', 'KD');
+  const fits = arrange(dealtGame({ rngSeed: 'open' }), 'p0', hand, { drawn: false, open: cards('5H') });
+  assert.deepEqual(fits.getLegalActions('p0').drawOpen, { allowed: true });
+  fits.drawFromOpen('p0');
+
+  const stranded = arrange(dealtGame({ rngSeed: 'open' }), 'p0', hand, { drawn: false, open: cards('7S') });
+  const check = stranded.getLegalActions('p0').drawOpen;
+  assert.equal(check.allowed, false);
+  assert.throws(() => stranded.drawFromOpen('p0'), new RegExp(check.reason!));
+});
+
+test('suggested melds are placeable, and acceptedAlone follows the pure-sequence rule', () => {
+  const [h3, h4, h5, c7, d7, s7] = cards('3H', '4H', '5H', '7C', '7D', '7S');
+  const game = arrange(dealtGame({ rngSeed: 'melds' }), 'p0', [h3, h4, h5, c7, d7, s7, ...cards('QD')]);
+  const { melds } = game.getLegalActions('p0');
+  const find = (ids: string[]) => melds.find(m => [...m.cardIds].sort().join() === [...ids].sort().join());
+
+  const run = find([h3.id, h4.id, h5.id]);
+  const set = find([c7.id, d7.id, s7.id]);
+  assert.deepEqual([run?.type, run?.acceptedAlone], [MeldType.SequencePure, true]);
+  assert.deepEqual([set?.type, set?.acceptedAlone], [MeldType.SetPure, false]);
+
+  for (const m of melds) {
+    const attempt = () => clone(game).placeMelds('p0', [{ cardIds: m.cardIds }]);
+    if (m.acceptedAlone) attempt();
+    else assert.throws(attempt, /pure sequence/);
+  }
+
+  // Once the team has its pure sequence, everything else stands alone too
+  game.placeMelds('p0', [{ cardIds: run!.cardIds }]);
+  assert.ok(game.getLegalActions('p0').melds.every(m => m.acceptedAlone));
+});
+
+test('additions list the team melds each hand card extends', () => {
+  const [h3, h4, h5, h6, k] = cards('3H', '4H', '5H', '6H', 'KC');
+  const game = arrange(dealtGame({ rngSeed: 'add' }), 'p0', [h3, h4, h5, h6, k]);
+  game.placeMelds('p0', [{ cardIds: [h3.id, h4.id, h5.id] }]);
+  const meldId = game.getPlayerState('p0').teamBoards[0].melds[0].id;
+  assert.deepEqual(game.getLegalActions('p0').additions, [{ cardId: h6.id, meldIds: [meldId] }]);
+  game.addCardsToMeld('p0', [{ meldId, cardIds: [h6.id] }]);
+});
+
+test('a joker cannot be discarded onto a joker', () => {
+  const [joker, printed, ten] = cards('2S', 'JK', '10D');
+  const game = arrange(dealtGame({ rngSeed: 'discard' }), 'p0', [joker, printed, ten], { open: cards('2D') });
+  assert.deepEqual(game.getLegalActions('p0').discardable, [ten.id]);
+  assert.throws(() => clone(game).discard('p0', joker));
+  game.discard('p0', ten);
+});
@@ -0,0 +1,108 @@
+/*
+BucaroMatch: dealer rotation, reproducible rounds, cumulative totals and the
+end-of-match conditions. Rounds are ended through snapshots rather than played
+out, so each test controls who scores.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroMatch } from '../src/engine/BucaroMatch';
+import { MeldType } from '../src/engine/BucaroGame';
+import { PLAYERS, cards } from './helpers/games';
+
+function seated(config: ConstructorParameters<typeof BucaroMatch>[0]): BucaroMatch {
+  const match = new BucaroMatch(config);
+  for (const id of PLAYERS) match.addPlayer(id, id.toUpperCase());
+  return match;
+}
+
+/** Ends the current round; `showTeam` (if any) is given a 7-card pure sequence on its board. */
+function endRound(match: BucaroMatch, showTeam?: 0 | 1): BucaroMatch {
+  const s = match.toSnapshot();
+  s.game!.status = 'ENDED';
+  if (showTeam !== undefined) {
+    const run = cards('3S', '4S', '5S', '6S', '7S', '8S', '9S');
+    s.game!.teamBoards[showTeam].melds.push({ id: 'show', type: MeldType.SequencePure, cards: run, jokerAssignments: [], placedBy: null });
+  }
+  return BucaroMatch.fromSnapshot(s);
+}
+
+test('the dealer rotates and round seeds derive from the match seed', () => {
+  let match = seated({ rngSeed: 'm', maxRounds: 6 });
+  const dealers: number[] = [];
+  const hands: string[] = [];
+  for (let r = 0; r < 5; r++) {
+    const game = match.startNextRound();
+    dealers.push(game.getPublicState().dealerIndex);
+    hands.push(JSON.stringify(game.getPlayerState('p0').yourHand));
+    match = endRound(match);
+    match.completeRound();
+  }
+  assert.deepEqual(dealers, [0, 1, 2, 3, 0]);
+  assert.equal(new Set(hands).size, 5);
+
+  const again = seated({ rngSeed: 'm', maxRounds: 6 });
+  assert.equal(JSON.stringify(again.startNextRound().getPlayerState('p0').yourHand), hands[0]);
+});
+
+test('totals accumulate round by round and the match ends after maxRounds', () => {
+  let match = seated({ rngSeed: 'totals', maxRounds: 2 });
+  match.startNextRound();
+  match = endRound(match, 0);
+  const first = match.completeRound();
+  assert.ok(first.scores.teamScores[0] > 0);
+  assert.deepEqual(first.totalsAfter, first.scores.teamScores);
+  assert.equal(match.getSummary().status, 'BETWEEN_ROUNDS');
+
+  match.startNextRound();
+  assert.equal(match.getSummary().round, 2);
+  match = endRound(match, 1);
+  const second = match.completeRound();
+  const expected = [0, 1].map(t => first.scores.teamScores[t] + second.scores.teamScores[t]);
+  assert.deepEqual(second.totalsAfter, expected);
+
+  const summary = match.getSummary();
+  assert.equal(summary.status, 'ENDED');
+  assert.deepEqual(summary.totals, expected);
+  assert.equal(summary.rounds.length, 2);
+  assert.equal(summary.winnerTeam, expected[0] === expected[1] ? null : (expected[0] > expected[1] ? 0 : 1));
+  assert.throws(() => match.startNextRound(), /Match is over/);
+});
+
+test('reaching targetScore with an outright lead ends the match', () => {
+  let match = seated({ rngSeed: 'target', targetScore: 100 });
+  match.startNextRound();
+  match = endRound(match, 1);
+  match.completeRound();
+  const summary = match.getSummary();
+  assert.equal(summary.status, 'ENDED');
+  assert.equal(summary.winnerTeam, 1);
+});
+
+test('a round must be finished before it is scored', () => {
+  const match = seated({ rngSeed: 'order', maxRounds: 3 });
+  assert.throws(() => match.completeRound(), /No round in progress/);
+  match.startNextRound();
+  assert.throws(() => match.startNextRound(), /already in progress/);
+  assert.throws(() => match.completeRound(), /Game not yet ended/);
+  assert.throws(() => match.addPlayer('p4', 'late'), /after match start/);
+});
+
+test('bad match settings are refused up front', () => {
+  assert.throws(() => new BucaroMatch({ targetScore: 0 }), /targetScore/);
+  assert.throws(() => new BucaroMatch({ maxRounds: 1.5 }), /maxRounds/);
+  assert.throws(() => new BucaroMatch({ targetScore: null, maxRounds: null }), /targetScore or maxRounds/);
+  assert.throws(() => new BucaroMatch({ game: { rules: { showLength: 1 } } }), /showLength/);
+  assert.equal(new BucaroMatch().getSummary().targetScore, 2000);
+});
+
+test('a match snapshot restores mid-round', () => {
+  const match = seated({ rngSeed: 'snap', maxRounds: 3 });
+  const game = match.startNextRound();
+  game.drawFromClosed(PLAYERS[game.getPublicState().currentTurn]);
+  const restored = BucaroMatch.fromSnapshot(match.toSnapshot());
+  assert.deepEqual(restored.toSnapshot(), match.toSnapshot());
+  assert.deepEqual(restored.game!.getPublicState(), game.getPublicState());
+});
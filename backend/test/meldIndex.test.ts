@@ -0,0 +1,89 @@
+/*
+MeldIndex: the neighbour lookups find the same melds a subset search would,
+under every ace/wraparound rule, and everything it returns is a valid meld.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MeldIndex, MeldType, RULE_PRESETS, classifyMeld, type Card, type HouseRules } from '../src/engine/BucaroGame';
+import { Rng } from '../src/engine/rng';
+import { cards } from './helpers/games';
+
+const CLASSIC = RULE_PRESETS.classic;
+const RULE_VARIANTS: HouseRules[] = [
+  CLASSIC,
+  { ...CLASSIC, aces: 'low' },
+  { ...CLASSIC, aces: 'both' },
+  { ...CLASSIC, wraparound: true },
+];
+
+const ids = (list: Card[]) => list.map(c => c.id).sort().join();
+
+/** Does some 3..5-card subset of hand+card that includes `card` classify? */
+function subsetSearch(card: Card, hand: Card[], rules: HouseRules): boolean {
+  const pool = hand.filter(c => c.id !== card.id);
+  const pick = (start: number, chosen: Card[]): boolean => {
+    if (chosen.length >= 2 && classifyMeld([card, ...chosen], rules)) return true;
+    if (chosen.length === 4) return false;
+    for (let i = start; i < pool.length; i++) {
+      if (pick(i + 1, [...chosen, pool[i]])) return true;
+    }
+    return false;
+  };
+  return pick(0, []);
+}
+
+function randomHand(rng: Rng, size: number): Card[] {
+  const deck = cards(...['S', 'H', 'D', 'C'].flatMap(s =>
+    ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'].map(r => r + s)), 'JK', 'JK');
+  return rng.shuffle([...deck, ...deck.map(c => ({ ...c, id: `${c.id}'` }))]).slice(0, size);
+}
+
+test('meldsWith finds sets, runs and joker completions around a card', () => {
+  const [h5, h6, h7, s5, d5, joker] = cards('5H', '6H', '7H', '5S', '5D', '2C');
+  const index = new MeldIndex([h6, h7, s5, d5, joker], CLASSIC);
+  const found = index.meldsWith(h5);
+  const has = (group: Card[], type: MeldType) =>
+    found.some(m => ids(m.cards) === ids(group) && m.type === type);
+
+  assert.ok(has([h5, h6, h7], MeldType.SequencePure));
+  assert.ok(has([h5, s5, d5], MeldType.SetPure));
+  assert.ok(has([h5, s5, joker], MeldType.SetImpure));
+  assert.ok(found.every(m => m.cards.length === 3 && m.cards.includes(h5)));
+  assert.ok(index.canJoin(h5, t => t === MeldType.SequencePure));
+  assert.ok(!new MeldIndex([s5, cards('9C')[0]], CLASSIC).canJoin(h5));
+});
+
+test('aces join runs only where the ace rule allows', () => {
+  const [ace, k, q, three] = cards('AH', 'KH', 'QH', '3H');
+  const joker = cards('JK')[0];
+  const low = [three, joker];
+  assert.ok(new MeldIndex([k, q], CLASSIC).canJoin(ace));
+  assert.ok(!new MeldIndex([k, q], { ...CLASSIC, aces: 'low' }).canJoin(ace));
+  assert.ok(!new MeldIndex(low, CLASSIC).canJoin(ace));
+  assert.ok(new MeldIndex(low, { ...CLASSIC, aces: 'low' }).canJoin(ace, t => t === MeldType.SequenceImpure));
+});
+
+test('canJoin agrees with a subset search on random hands under every rule variant', () => {
+  const rng = new Rng('meld-index');
+  for (const rules of RULE_VARIANTS) {
+    for (let sample = 0; sample < 60; sample++) {
+      const [top, ...hand] = randomHand(rng, 14);
+      assert.equal(new MeldIndex(hand, rules).canJoin(top), subsetSearch(top, hand, rules),
+        `top ${top.id} hand ${ids(hand)} rules ${JSON.stringify(rules)}`);
+    }
+  }
+});
+
+test('allMelds returns only valid melds, including the obvious ones', () => {
+  const [s9, s10, sJ, q1, q2, q3, j1, j2, j3] = cards('9S', '10S', 'JS', 'QH', 'QD', 'QC', 'JK', '2H', '2D');
+  const found = new MeldIndex([s9, s10, sJ, q1, q2, q3, j1, j2, j3], CLASSIC).allMelds();
+  for (const m of found) assert.equal(classifyMeld(m.cards, CLASSIC), m.type);
+  const groups = found.map(m => ids(m.cards));
+  assert.ok(groups.includes(ids([s9, s10, sJ])));
+  assert.ok(groups.includes(ids([q1, q2, q3])));
+  assert.ok(found.some(m => m.type === MeldType.ThreeJokers));
+  assert.equal(new Set(groups).size, groups.length);
+});
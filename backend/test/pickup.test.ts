@@ -0,0 +1,80 @@
+/*
+Open-pile pickups: the card taken has to be melded before discarding, a
+picked-up joker only into a pure sequence or three jokers, and the pickup can
+be returned until something is placed.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, MeldType, type BucaroRuleError, type RuleErrorCode } from '../src/engine/BucaroGame';
+import { arrange, cards, dealtGame } from './helpers/games';
+
+const code = (expected: RuleErrorCode) => (e: unknown) => (e as BucaroRuleError).code === expected;
+
+/** p0 to move before drawing, open pile topped with 5H; p0 can meld it with 3H 4H. */
+function pickupTable() {
+  const [h3, h4, c9, sK, h5] = cards('3H', '4H', '9C', 'KS', '5H');
+  const game = arrange(dealtGame({ rngSeed: 'pickup' }), 'p0', [h3, h4, c9, sK], { drawn: false, open: [h5] });
+  return { game, h3, h4, c9, sK, h5 };
+}
+
+test('the card taken from the open pile must be melded before discarding', () => {
+  const { game, h3, h4, c9, h5 } = pickupTable();
+  game.drawFromOpen('p0');
+  assert.equal(game.getLegalActions('p0').mustMeld, h5.id);
+  assert.throws(() => game.discard('p0', c9), code('PICKUP_NOT_MELDED'));
+
+  game.placeMelds('p0', [{ cardIds: [h3.id, h4.id, h5.id] }]);
+  assert.equal(game.getLegalActions('p0').mustMeld, null);
+  game.discard('p0', c9);
+});
+
+test('a pickup can be returned, and the player draws again', () => {
+  const { game, h5 } = pickupTable();
+  const before = game.toSnapshot();
+  game.drawFromOpen('p0');
+  assert.deepEqual(game.getLegalActions('p0').returnOpen, { allowed: true });
+  game.returnOpenCard('p0');
+
+  assert.equal(game.getPublicState().openTop?.id, h5.id);
+  assert.equal(game.getPlayerState('p0').yourHand.length, before.players[0].hand.length);
+  assert.equal(game.getLegalActions('p0').mustMeld, null);
+  assert.throws(() => game.returnOpenCard('p0'), code('NO_PICKUP_TO_RETURN'));
+  game.drawFromClosed('p0');
+
+  const journal = game.toSnapshot().journal.slice(-3).map(r => r.type);
+  assert.deepEqual(journal, ['drawFromOpen', 'returnOpenCard', 'drawFromClosed']);
+});
+
+test('once anything is placed the pickup is locked in', () => {
+  const [h3, h4, h5, s7, s8, s9, d6] = cards('3H', '4H', '5H', '7S', '8S', '9S', '6D');
+  const game = arrange(dealtGame({ rngSeed: 'locked' }), 'p0', [h3, h4, s7, s8, s9, d6], { drawn: false, open: [h5] });
+  game.drawFromOpen('p0');
+  game.placeMelds('p0', [{ cardIds: [s7.id, s8.id, s9.id] }]);
+  assert.equal(game.getLegalActions('p0').returnOpen.code, 'PICKUP_LOCKED');
+  assert.throws(() => game.returnOpenCard('p0'), code('PICKUP_LOCKED'));
+  assert.equal(game.getLegalActions('p0').mustMeld, h5.id);
+});
+
+test('a picked-up joker may go into three jokers but not an impure set', () => {
+  const [c2, d2, c7, d7, k] = cards('2C', '2D', '7C', '7D', 'KC');
+  const [joker] = cards('JK');
+  const s = arrange(dealtGame({ rngSeed: 'joker-pickup' }), 'p0', [c2, d2, c7, d7, k], { drawn: false, open: [joker] }).toSnapshot();
+  s.teamBoards[0].melds.push({ id: 'pure', type: MeldType.SequencePure, cards: cards('9S', '10S', 'JS'), jokerAssignments: [], placedBy: null });
+  const game = BucaroGame.fromSnapshot(s);
+
+  game.drawFromOpen('p0');
+  assert.throws(() => game.placeMelds('p0', [{ cardIds: [c7.id, d7.id, joker.id] }]), code('PICKUP_JOKER_NOT_PURE'));
+  game.placeMelds('p0', [{ cardIds: [c2.id, d2.id, joker.id] }]);
+  assert.equal(game.getLegalActions('p0').mustMeld, null);
+});
+
+test('version 2 snapshots load with no pending pickup', () => {
+  const { game } = pickupTable();
+  const v2 = JSON.parse(JSON.stringify(game.toSnapshot()));
+  v2.version = 2;
+  delete v2.pendingPickup;
+  assert.deepEqual(BucaroGame.fromSnapshot(v2).toSnapshot(), game.toSnapshot());
+});
@@ -0,0 +1,99 @@
+/*
+Profiles: tokens authenticate only their own profile, team Elo moves both
+partners by the same amount and counts unrated seats at their fixed rating,
+stats add up round by round, the leaderboard ranks and filters, and the file
+store keeps profiles across restarts.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_RATING, FileProfileStore, MemoryProfileStore, ProfileRegistry, RATING_K, expectedScore, type RoundParticipant,
+} from '../src/profiles';
+
+function seats(a: string | undefined, b: string | undefined, rating = DEFAULT_RATING): RoundParticipant[] {
+  return [
+    { playerId: 'p0', teamId: 0, profileId: a, rating, shows: 1 },
+    { playerId: 'p1', teamId: 1, profileId: b, rating, shows: 0 },
+    { playerId: 'p2', teamId: 0, rating, shows: 0 },
+    { playerId: 'p3', teamId: 1, rating, shows: 0 },
+  ];
+}
+
+test('a token authenticates its own profile only', () => {
+  const registry = new ProfileRegistry(new MemoryProfileStore());
+  const { profile, token } = registry.create('Ana');
+  const other = registry.create('Ben');
+  assert.equal(registry.authenticate(token)?.id, profile.id);
+  assert.equal(registry.authenticate(`${profile.id}.${other.token.split('.')[1]}`), undefined);
+  for (const bad of [undefined, 42, '', 'no-dot', `.${token}`, `${profile.id}.`]) {
+    assert.equal(registry.authenticate(bad), undefined, String(bad));
+  }
+  assert.equal('secretHash' in profile, false);
+});
+
+test('even teams move by K/2 and unrated seats keep their fixed rating', () => {
+  assert.equal(expectedScore(1500, 1500), 0.5);
+  assert.ok(expectedScore(1700, 1500) > 0.75);
+
+  const registry = new ProfileRegistry(new MemoryProfileStore());
+  const ana = registry.create('Ana').profile;
+  const ben = registry.create('Ben').profile;
+  const changes = registry.recordRound(seats(ana.id, ben.id), [300, 120]);
+  assert.deepEqual(changes, [
+    { playerId: 'p0', profileId: ana.id, before: 1500, after: 1500 + RATING_K / 2 },
+    { playerId: 'p1', profileId: ben.id, before: 1500, after: 1500 - RATING_K / 2 },
+  ]);
+
+  // Against stronger bots a loss costs less than K/2
+  const [loss] = registry.recordRound(seats(ben.id, undefined, 1800), [0, 200]);
+  assert.ok(loss.before - loss.after < RATING_K / 2);
+});
+
+test('stats add up per scored round', () => {
+  const registry = new ProfileRegistry(new MemoryProfileStore());
+  const ana = registry.create('Ana').profile;
+  registry.recordRound(seats(ana.id, undefined), [300, 100]);
+  registry.recordRound(seats(ana.id, undefined), [100, 100]);
+  registry.recordRound(seats(ana.id, undefined), [-50, 100]);
+  const stored = registry.get(ana.id)!;
+  assert.deepEqual(stored.stats, { games: 3, wins: 1, losses: 1, draws: 1, shows: 3, totalScore: 350 });
+  assert.equal(typeof stored.lastPlayedAt, 'number');
+});
+
+test('the leaderboard ranks by rating among players with enough games', () => {
+  const registry = new ProfileRegistry(new MemoryProfileStore());
+  const ana = registry.create('Ana').profile;
+  const ben = registry.create('Ben').profile;
+  registry.create('Cy'); // never played
+  registry.recordRound(seats(ana.id, ben.id), [300, 0]);
+  registry.recordRound(seats(ana.id, undefined), [300, 0]);
+
+  assert.deepEqual(registry.leaderboard(10, 1).map(e => [e.rank, e.name]), [[1, 'Ana'], [2, 'Ben']]);
+  assert.deepEqual(registry.leaderboard(10, 2).map(e => e.name), ['Ana']);
+  assert.deepEqual(registry.leaderboard(1, 0).map(e => e.name), ['Ana']);
+  assert.equal(registry.leaderboard(10, 0).length, 3);
+});
+
+test('the file store keeps profiles, ratings and tokens across restarts', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bucaro-profiles-'));
+  try {
+    const file = path.join(dir, 'nested', 'profiles.json');
+    const first = new ProfileRegistry(new FileProfileStore(file));
+    const { profile, token } = first.create('Ana');
+    first.recordRound(seats(profile.id, undefined), [200, 0]);
+
+    const again = new ProfileRegistry(new FileProfileStore(file));
+    assert.equal(again.authenticate(token)?.id, profile.id);
+    assert.equal(again.get(profile.id)!.stats.games, 1);
+    assert.equal(again.get(profile.id)!.rating, first.get(profile.id)!.rating);
+    assert.deepEqual(fs.readdirSync(path.dirname(file)), ['profiles.json']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
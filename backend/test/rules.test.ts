@@ -0,0 +1,79 @@
+/*
+House rules: presets, overrides and their validation, and the engine playing
+by the resolved rules.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, RULE_PRESETS } from '../src/engine/BucaroGame';
+import { resolveHouseRules } from '../src/engine/rules';
+import { arrange, cards, dealtGame } from './helpers/games';
+
+test('rules resolve as classic <- preset <- overrides', () => {
+  assert.deepEqual(resolveHouseRules(), RULE_PRESETS.classic);
+  assert.deepEqual(resolveHouseRules('relaxed'), RULE_PRESETS.relaxed);
+  const rules = resolveHouseRules('highStakes', { showLength: 8, wraparound: true });
+  assert.equal(rules.showLength, 8);
+  assert.equal(rules.wraparound, true);
+  assert.equal(rules.pureMeldPoints, RULE_PRESETS.highStakes.pureMeldPoints);
+  // Presets are not changed by overrides
+  assert.equal(RULE_PRESETS.highStakes.showLength, 7);
+});
+
+test('unknown presets and rule names are refused, inherited names included', () => {
+  assert.throws(() => resolveHouseRules('casual' as never), /Unknown rule preset/);
+  assert.throws(() => resolveHouseRules('toString' as never), /Unknown rule preset/);
+  assert.throws(() => resolveHouseRules('classic', { showLenght: 6 } as never), /Unknown house rule: showLenght/);
+  for (const key of ['toString', 'constructor', 'hasOwnProperty']) {
+    assert.throws(() => resolveHouseRules('classic', { [key]: 1 } as never), new RegExp(`Unknown house rule: ${key}`));
+  }
+  assert.throws(() => resolveHouseRules('classic', JSON.parse('{"__proto__": {"showLength": 3}}')), /Unknown house rule: __proto__/);
+});
+
+test('out-of-range or mistyped rules are refused before a game exists', () => {
+  assert.throws(() => resolveHouseRules('classic', { showLength: 2 }), /showLength must be an integer in 3..13/);
+  assert.throws(() => resolveHouseRules('classic', { showsToEnd: 3 }), /showsToEnd/);
+  assert.throws(() => resolveHouseRules('classic', { jokerCardValue: 1.5 }), /jokerCardValue/);
+  assert.throws(() => resolveHouseRules('classic', { aces: 'middle' as never }), /aces must be high, low or both/);
+  assert.throws(() => resolveHouseRules('classic', { wraparound: 'yes' as never }), /wraparound must be a boolean/);
+  assert.throws(() => new BucaroGame({ rules: { printedJokersPerDeck: 9 } }), /printedJokersPerDeck/);
+});
+
+test('a game keeps its resolved rules in config and public state', () => {
+  const game = dealtGame({ rngSeed: 'rules', preset: 'relaxed', rules: { noShowPenalty: 50 } });
+  const expected = { ...RULE_PRESETS.relaxed, noShowPenalty: 50 };
+  assert.deepEqual(game.getConfig().rules, expected);
+  assert.equal(game.getConfig().preset, 'relaxed');
+  assert.deepEqual(game.getPublicState().rules, expected);
+  assert.equal(game.getPublicState().rulePreset, 'relaxed');
+});
+
+test('the deck has as many printed jokers as the rules say', () => {
+  const count = (printedJokersPerDeck: number) => {
+    const s = dealtGame({ rngSeed: 'deck', rules: { printedJokersPerDeck } }).toSnapshot();
+    const all = [...s.players.flatMap(p => p.hand), ...s.closed, ...s.open, ...s.extraShowStack, ...s.deck];
+    return { total: all.length, printed: all.filter(c => c.suit === 'JOKER').length };
+  };
+  assert.deepEqual(count(2), { total: 108, printed: 4 });
+  assert.deepEqual(count(0), { total: 104, printed: 0 });
+});
+
+test('ace placement follows the aces rule', () => {
+  const [q, k, a, three, four, five, joker] = cards('QS', 'KS', 'AS', '3H', '4H', '5H', '2C');
+  // A-2-3 only works with a low ace; Q-K-A only with a high one
+  const play = (aces: 'high' | 'low', meld: string[]) => {
+    const game = arrange(dealtGame({ rngSeed: 'aces', rules: { aces } }), 'p0', [q, k, a, three, four, five, joker, ...cards('9D')]);
+    game.placeMelds('p0', [{ cardIds: [three.id, four.id, five.id] }, { cardIds: meld }]);
+  };
+  play('high', [q.id, k.id, a.id]);
+  assert.throws(() => play('low', [q.id, k.id, a.id]), /Invalid meld/);
+  const [aceLow, six, seven, eight] = cards('AH', '6S', '7S', '8S');
+  const withLowAce = (aces: 'high' | 'low') => {
+    const game = arrange(dealtGame({ rngSeed: 'aces', rules: { aces } }), 'p0', [aceLow, joker, three, four, five, six, seven, eight, ...cards('9D')]);
+    game.placeMelds('p0', [{ cardIds: [six.id, seven.id, eight.id] }, { cardIds: [aceLow.id, joker.id, three.id, four.id, five.id] }]);
+  };
+  assert.throws(() => withLowAce('high'), /Invalid meld/);
+  withLowAce('low');
+});
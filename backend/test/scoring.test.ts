@@ -0,0 +1,71 @@
+/*
+Itemized final scores: every meld, leftover hand and transferred card is listed
+with its value, and the team totals are exactly the sum of those lines.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, MeldType } from '../src/engine/BucaroGame';
+import { arrange, cards, dealtGame } from './helpers/games';
+
+/** p0 places a 7-card pure sequence and discards; then the game is ended with known hands. */
+function scoredGame(): BucaroGame {
+  const hand = cards('3S', '4S', '5S', '6S', '7S', '8S', '9S', 'KH', 'AD');
+  const game = arrange(dealtGame({ rngSeed: 'scoring' }), 'p0', hand);
+  game.placeMelds('p0', [{ cardIds: hand.slice(0, 7).map(c => c.id) }]);
+  game.discard('p0', hand[7]);
+
+  const s = game.toSnapshot();
+  s.status = 'ENDED';
+  s.endReason = 'SHOWS';
+  const leftovers = [cards('AD'), cards('5H', 'KC'), cards('JK'), cards('AS', '2C')];
+  s.players.forEach((p, i) => { p.hand = leftovers[i]; });
+  return BucaroGame.fromSnapshot(s, { clock: () => 0 });
+}
+
+test('each meld is listed with who placed it and what it is worth', () => {
+  const { details } = scoredGame().computeFinalScores();
+  assert.equal(details[0].melds.length, 1);
+  const [line] = details[0].melds;
+  assert.equal(line.type, MeldType.SequencePure);
+  assert.equal(line.placedBy, 'p0');
+  assert.equal(line.meldPoints, 200);
+  assert.deepEqual(line.cards.map(c => c.value), [5, 5, 5, 5, 5, 10, 10]);
+  assert.equal(line.cardPoints, 45);
+  assert.equal(line.showQualifying, true);
+  assert.deepEqual(details[1].melds, []);
+});
+
+test('the hands of a team without a show meld go to the other team', () => {
+  const { details } = scoredGame().computeFinalScores();
+  const hands = details.flatMap(d => d.hands);
+  assert.deepEqual(hands.map(h => [h.playerId, h.value, h.transferredTo]), [
+    ['p0', 15, null], ['p2', 0, null], ['p1', 15, 0], ['p3', 15, 0],
+  ]);
+  assert.deepEqual(details[0].transferIn.map(c => c.value), [5, 10, 15, 0]);
+  assert.deepEqual(details[1].transferIn, []);
+  assert.equal(details[0].inHandGainsFromOpp, 30);
+  assert.equal(details[1].penalty, -200);
+});
+
+test('team totals are the sum of their lines', () => {
+  const scores = scoredGame().computeFinalScores();
+  assert.equal(scores.endReason, 'SHOWS');
+  for (const d of scores.details) {
+    const sum = (xs: number[]) => xs.reduce((t, x) => t + x, 0);
+    assert.equal(d.meldPoints, sum(d.melds.map(m => m.meldPoints)));
+    assert.equal(d.cardPoints, sum(d.melds.map(m => m.cardPoints)));
+    assert.equal(d.inHandGainsFromOpp, sum(d.transferIn.map(c => c.value)));
+    assert.equal(scores.teamScores[d.teamId], d.meldPoints + d.cardPoints + d.penalty + d.inHandGainsFromOpp);
+  }
+  assert.deepEqual(scores.teamScores, [275, -200]);
+});
+
+test('melds restored from a version 5 snapshot have no recorded placer', () => {
+  const s = scoredGame().toSnapshot() as unknown as Record<string, unknown> & { teamBoards: { melds: { placedBy?: string | null }[] }[] };
+  for (const m of s.teamBoards[0].melds) delete m.placedBy;
+  const restored = BucaroGame.fromSnapshot({ ...s, version: 5 } as never);
+  assert.equal(restored.computeFinalScores().details[0].melds[0].placedBy, null);
+});
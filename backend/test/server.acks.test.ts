@@ -0,0 +1,102 @@
+/*
+Acknowledgements over the socket API: every request answered through its ack
+gets exactly one { ok, data } or { ok: false, error }, actions report the state
+version they produced, and requests without a payload are refused rather than
+crashing the handler.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { actionMeta, bootServer, client, createRoom, nextState, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function connect() {
+  const socket = await client(url);
+  sockets.push(socket);
+  return socket;
+}
+
+/** Emit with an ack and wait for the answer (5 s limit). */
+function request(socket: Client, event: string, ...args: unknown[]): Promise<any> {
+  return socket.timeout(5000).emitWithAck(event, ...args);
+}
+
+test('joining answers with the role, and failures come back through the ack only', async () => {
+  const roomId = await createRoom(url);
+  const host = await connect();
+  const errors: unknown[] = [];
+  host.on('errorMsg', e => errors.push(e));
+
+  const joined = await request(host, 'joinRoom', { roomId, name: 'Host' });
+  assert.equal(joined.ok, true);
+  assert.equal(joined.data.role, 'player');
+  assert.equal(joined.data.seat, 0);
+  assert.equal(typeof joined.data.token, 'string');
+
+  const watcher = await connect();
+  const watching = await request(watcher, 'joinRoom', { roomId, name: 'Watcher', spectator: true });
+  assert.deepEqual(watching, { ok: true, data: { role: 'spectator', roomId, status: 'LOBBY', coaching: { enabled: false, delayMs: 180_000 } } });
+
+  const refused = await request(host, 'startGame', actionMeta(host));
+  assert.equal(refused.ok, false);
+  assert.equal(refused.error.code, 'NEED_FOUR_PLAYERS');
+  const unknownRoom = await request(await connect(), 'joinRoom', { roomId: 'NOPE', name: 'Lost' });
+  assert.equal(unknownRoom.error.code, 'ROOM_NOT_FOUND');
+  await sleep(50);
+  assert.deepEqual(errors, []);
+});
+
+test('actions answer with the state version they produced', async () => {
+  const roomId = await createRoom(url);
+  const host = await connect();
+  const { data: { seat } } = await request(host, 'joinRoom', { roomId, name: 'Host' });
+  for (let i = 0; i < 3; i++) assert.equal((await request(host, 'addBot', { difficulty: 'easy' })).ok, true);
+  assert.deepEqual(await request(host, 'setReady', { ready: true }), { ok: true, data: null });
+
+  const myTurn = nextState(host, s => s.status === 'ACTIVE' && s.currentTurn === seat);
+  const started = await request(host, 'startGame', actionMeta(host));
+  assert.equal(started.ok, true);
+  await myTurn;
+
+  const legal = await request(host, 'getLegalActions');
+  assert.equal(legal.data.drawClosed.allowed, true);
+  const drawn = await request(host, 'drawClosed', actionMeta(host));
+  assert.equal(drawn.ok, true);
+  const view = await request(host, 'resync');
+  assert.equal(view.data.version, drawn.data.version);
+});
+
+test('requests without a payload are refused with BAD_REQUEST', async () => {
+  const roomId = await createRoom(url);
+  const host = await connect();
+  assert.equal((await request(host, 'joinRoom', null)).error.code, 'BAD_REQUEST');
+  await request(host, 'joinRoom', { roomId, name: 'Host' });
+
+  for (const event of ['chooseSeat', 'swapSeats', 'setReady', 'kick', 'transferHost', 'setSpectatorChat', 'startGame', 'drawClosed',
+    'placeMelds', 'addToMeld', 'swapJoker', 'discard', 'show']) {
+    const answer = await request(host, event, null);
+    assert.deepEqual(answer, { ok: false, error: { code: 'BAD_REQUEST', message: 'Missing payload', details: {} } }, event);
+  }
+  assert.equal((await request(host, 'setCoaching', null)).error.code, 'INVALID_COACHING');
+  assert.equal((await request(host, 'removeBot', null)).error.code, 'INVALID_SEAT');
+  assert.equal((await request(host, 'chat', null)).error.code, 'CHAT_EMPTY');
+  // Still serving
+  assert.equal((await request(host, 'addBot', null)).ok, true);
+});
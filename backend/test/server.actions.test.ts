@@ -0,0 +1,91 @@
+/*
+Table actions through the room's action queue: a resent actionId is answered
+with the first result and applied once, an action made against an old version
+is refused, and actions without their meta are refused.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { actionMeta, bootServer, client, createRoom, next, nextState, views, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+/** Emit with an ack and wait for the answer (5 s limit). */
+function request(socket: Client, event: string, ...args: unknown[]): Promise<any> {
+  return socket.timeout(5000).emitWithAck(event, ...args);
+}
+
+/** A host and three bots, dealt, on the host's turn. */
+async function hostsTurn() {
+  const roomId = await createRoom(url, { clock: { turnMs: null } });
+  const host = await client(url);
+  sockets.push(host);
+  const { data: { seat } } = await request(host, 'joinRoom', { roomId, name: 'Host' });
+  for (let i = 0; i < 3; i++) await request(host, 'addBot', { difficulty: 'easy' });
+  await request(host, 'setReady', { ready: true });
+  const myTurn = nextState(host, s => s.status === 'ACTIVE' && s.currentTurn === seat);
+  assert.equal((await request(host, 'startGame', actionMeta(host))).ok, true);
+  await myTurn;
+  return host;
+}
+
+test('a resent actionId is answered with the first result and applied once', async () => {
+  const host = await hostsTurn();
+  const meta = actionMeta(host);
+  const [first, again] = await Promise.all([request(host, 'drawClosed', meta), request(host, 'drawClosed', meta)]);
+  assert.deepEqual(first, { ok: true, data: { version: first.data.version } });
+  assert.deepEqual(again, { ok: true, data: { version: first.data.version, duplicate: true } });
+  assert.equal((await request(host, 'getState')).ok, true); // the full state arrives ahead of the ack
+  assert.equal(views.get(host).yourHand.length, 14);
+
+  // A failed action is not retried either: the same id gets the same refusal
+  const { discardable } = (await request(host, 'getLegalActions')).data;
+  const bad = { ...actionMeta(host), cardId: 'no-such-card' };
+  const refused = await request(host, 'discard', bad);
+  assert.equal(refused.error.code, 'CARD_NOT_IN_HAND');
+  assert.deepEqual(await request(host, 'discard', { ...bad, cardId: discardable[0] }), refused);
+});
+
+test('an action made against an older version is refused', async () => {
+  const host = await hostsTurn();
+  const seen = actionMeta(host);
+  assert.equal((await request(host, 'drawClosed', seen)).ok, true);
+  const view = await request(host, 'getState');
+  const stale = await request(host, 'returnOpen', { ...seen, actionId: 'second-click' });
+  assert.deepEqual(stale.error, {
+    code: 'STALE_VERSION',
+    message: 'The table changed since you acted; try again',
+    details: { expectedVersion: seen.expectedVersion, version: view.data.version },
+  });
+});
+
+test('actions need an actionId and an expectedVersion', async () => {
+  const roomId = await createRoom(url);
+  const host = await client(url);
+  sockets.push(host);
+  await request(host, 'joinRoom', { roomId, name: 'Host' });
+  for (const payload of [{}, { actionId: '', expectedVersion: 1 }, { actionId: 'x'.repeat(65), expectedVersion: 1 }]) {
+    assert.equal((await request(host, 'startGame', payload)).error.code, 'INVALID_ACTION');
+  }
+  assert.equal((await request(host, 'startGame', { actionId: 'a' })).error.code, 'INVALID_ACTION');
+
+  // Without an ack the refusal still arrives as errorMsg
+  const refused = next(host, 'errorMsg');
+  host.emit('startGame', {});
+  assert.equal((await refused).code, 'INVALID_ACTION');
+});
@@ -0,0 +1,95 @@
+/*
+Bots over the socket API: the host fills and empties seats in the lobby,
+malformed requests are refused without taking the server down, and a table
+of bots plays on by itself.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { bootServer, client, createRoom, next, nextState, sendAction, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name });
+  return { socket, ...(await joined) };
+}
+
+test('the host adds and removes bots; others may not', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+
+  const added = next(host.socket, 'lobby', l => l.seats[2].bot === 'strong');
+  host.socket.emit('addBot', { difficulty: 'strong' });
+  const lobby = await added;
+  assert.equal(lobby.hostId, host.playerId);
+  assert.equal(lobby.seats[2].connected, true);
+
+  const refused = next(guest.socket, 'errorMsg');
+  guest.socket.emit('addBot', { seat: 3 });
+  assert.equal((await refused).code, 'NOT_HOST');
+
+  const removed = next(host.socket, 'lobby', l => !l.seats[2].playerId);
+  host.socket.emit('removeBot', { seat: 2 });
+  await removed;
+
+  const noBot = next(host.socket, 'errorMsg');
+  host.socket.emit('removeBot', { seat: 2 });
+  assert.deepEqual(await noBot, { code: 'INVALID_SEAT', message: 'No bot in that seat', details: { seat: 2 } });
+});
+
+test('addBot and removeBot survive a missing or malformed payload', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+
+  // addBot's fields are all optional: no payload adds an easy bot in the next seat
+  const added = next(host.socket, 'lobby', l => l.seats[1].bot === 'easy');
+  host.socket.emit('addBot');
+  await added;
+
+  for (const payload of [undefined, null, {}, { seat: 'one' }]) {
+    const refused = next(host.socket, 'errorMsg');
+    host.socket.emit('removeBot', payload);
+    assert.equal((await refused).code, 'INVALID_SEAT');
+  }
+  const badDifficulty = next(host.socket, 'errorMsg');
+  host.socket.emit('addBot', { difficulty: 'godlike' });
+  assert.equal((await badDifficulty).code, 'INVALID_BOT');
+
+  // Still serving
+  const removed = next(host.socket, 'lobby', l => !l.seats[1].playerId);
+  host.socket.emit('removeBot', { seat: 1 });
+  await removed;
+});
+
+test('bots play their turns until a human is to move', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  host.socket.emit('setReady', { ready: true });
+  for (let i = 0; i < 3; i++) host.socket.emit('addBot', { difficulty: i % 2 ? 'easy' : 'strong' });
+  await next(host.socket, 'lobby', l => l.allReady);
+
+  const myTurn = nextState(host.socket, s => s.currentTurn === host.seat && s.status === 'ACTIVE');
+  sendAction(host.socket, 'startGame');
+  const state = await myTurn;
+  assert.equal(state.yourHand.length, 13);
+});
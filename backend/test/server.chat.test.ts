@@ -0,0 +1,129 @@
+/*
+Chat over the socket API: room and team channels reach the right people, the
+history on joining shows only what that person may see (team messages stay
+with the players they were sent to), spectators chat only when the host allows
+it, and bad or missing payloads are refused.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { bootServer, client, createRoom, next, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string, extra: { token?: string; spectator?: boolean } = {}) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, extra.spectator ? 'spectating' : 'joined');
+  const history = next(socket, 'chatHistory');
+  socket.emit('joinRoom', { roomId, name, ...extra });
+  return { socket, ...(await joined), history: (await history).messages as Array<{ text: string }> };
+}
+
+async function refusal(socket: Client, event: string, payload?: unknown) {
+  const refused = next(socket, 'errorMsg');
+  if (payload === undefined) socket.emit(event);
+  else socket.emit(event, payload);
+  return (await refused).code;
+}
+
+test('room chat reaches everyone, team chat only the partner', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');   // seat 0, team 0
+  const rival = await join(roomId, 'Rival'); // seat 1, team 1
+  const partner = await join(roomId, 'Partner'); // seat 2, team 0
+  const heard: Record<string, string[]> = { rival: [], partner: [] };
+  rival.socket.on('chat', (m: { text: string }) => heard.rival.push(m.text));
+  partner.socket.on('chat', (m: { text: string }) => heard.partner.push(m.text));
+
+  const toTeam = next(partner.socket, 'chat', m => m.text === 'pick up the 7');
+  host.socket.emit('chat', { channel: 'team', text: 'pick up the 7' });
+  assert.deepEqual((await toTeam).from, { playerId: host.playerId, name: 'Host', seat: 0, spectator: false });
+  const toRoom = next(rival.socket, 'chat', m => m.text === 'gg');
+  host.socket.emit('emote', { channel: 'room', emote: 'gg' });
+  assert.equal((await toRoom).kind, 'emote');
+
+  await sleep(50);
+  assert.deepEqual(heard, { rival: ['gg'], partner: ['pick up the 7', 'gg'] });
+
+  const watcher = await join(roomId, 'Watcher', { spectator: true });
+  assert.deepEqual(watcher.history.map((m: { text: string }) => m.text), ['gg']);
+});
+
+test('team history stays with the players it was sent to after a seat swap', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');     // seat 0, team 0
+  const rival = await join(roomId, 'Rival');   // seat 1, team 1
+  const partner = await join(roomId, 'Partner'); // seat 2, team 0
+
+  const sent = next(partner.socket, 'chat');
+  host.socket.emit('chat', { channel: 'team', text: 'secret' });
+  await sent;
+  const swapped = next(host.socket, 'lobby', l => l.seats[2].playerId === rival.playerId);
+  host.socket.emit('swapSeats', { a: 1, b: 2 });
+  await swapped;
+
+  // Rival is now on team 0 but was not there for the message; Partner has left team 0 but was
+  rival.socket.disconnect();
+  partner.socket.disconnect();
+  const rivalBack = await join(roomId, 'Rival', { token: rival.token });
+  const partnerBack = await join(roomId, 'Partner', { token: partner.token });
+  assert.deepEqual(rivalBack.history, []);
+  assert.deepEqual(partnerBack.history.map((m: { text: string }) => m.text), ['secret']);
+  assert.equal('recipients' in partnerBack.history[0], false);
+});
+
+test('spectators chat on the room channel only once the host allows it', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const watcher = await join(roomId, 'Watcher', { spectator: true });
+
+  assert.equal(await refusal(watcher.socket, 'chat', { channel: 'room', text: 'hi' }), 'CHAT_NOT_ALLOWED');
+  assert.equal(await refusal(watcher.socket, 'setSpectatorChat', { allowed: true }), 'NOT_HOST');
+  for (const payload of [undefined, null, {}, { allowed: 'yes' }]) {
+    assert.equal(await refusal(host.socket, 'setSpectatorChat', payload), 'BAD_REQUEST');
+  }
+
+  const allowed = next(host.socket, 'lobby', l => l.spectatorChat);
+  host.socket.emit('setSpectatorChat', { allowed: true });
+  await allowed;
+  const heard = next(host.socket, 'chat');
+  watcher.socket.emit('chat', { channel: 'room', text: 'hi' });
+  assert.deepEqual((await heard).from, { playerId: null, name: 'Watcher', seat: null, spectator: true });
+  assert.equal(await refusal(watcher.socket, 'chat', { channel: 'team', text: 'hi' }), 'CHAT_NOT_ALLOWED');
+});
+
+test('bad messages are refused and senders are rate limited', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+
+  assert.equal(await refusal(host.socket, 'chat'), 'CHAT_EMPTY');
+  assert.equal(await refusal(host.socket, 'chat', { channel: 'room', text: '   ' }), 'CHAT_EMPTY');
+  assert.equal(await refusal(host.socket, 'chat', { channel: 'room', text: 'x'.repeat(301) }), 'CHAT_TOO_LONG');
+  assert.equal(await refusal(host.socket, 'chat', { channel: 'all', text: 'hi' }), 'INVALID_CHANNEL');
+  assert.equal(await refusal(host.socket, 'emote'), 'INVALID_EMOTE');
+  assert.equal(await refusal(host.socket, 'emote', { channel: 'room', emote: 'rofl' }), 'INVALID_EMOTE');
+
+  for (let i = 0; i < 5; i++) {
+    const heard = next(host.socket, 'chat');
+    host.socket.emit('chat', { channel: 'room', text: `msg ${i}` });
+    await heard;
+  }
+  assert.equal(await refusal(host.socket, 'chat', { channel: 'room', text: 'one more' }), 'CHAT_RATE_LIMITED');
+});
@@ -0,0 +1,124 @@
+/*
+Turn clocks over the socket API: clock settings are validated, a human who
+runs out of time is moved for, repeated timeouts escalate, and a timeout the
+server cannot play never leaves the table stuck.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroBot } from '../src/bots/BucaroBot';
+import { BucaroGame } from '../src/engine/BucaroGame';
+import { bootServer, client, createRoom, next, nextState, sendAction, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+/** One human (seat 0) and three bots, 1 s turns unless `clock` says otherwise; resolves on the human's turn. */
+async function timedTable(clock: { turnMs?: number | null; [key: string]: unknown }) {
+  const roomId = await createRoom(url, { clock: { turnMs: 1000, ...clock } });
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name: 'Slow' });
+  const { playerId, seat } = await joined;
+  socket.emit('setReady', { ready: true });
+  for (let i = 0; i < 3; i++) socket.emit('addBot', { difficulty: 'easy' });
+  await next(socket, 'lobby', l => l.allReady);
+  const clocked = clock.turnMs !== null;
+  const myTurn = nextState(socket, s => s.currentTurn === seat && (!clocked || s.clock?.seat === seat));
+  sendAction(socket, 'startGame');
+  const state = await myTurn;
+  return { socket, playerId, seat, state };
+}
+
+test('bad clock settings are refused when the room is created', async () => {
+  for (const clock of [{ turnMs: 10 }, { maxTimeouts: 0 }, { onMaxTimeouts: 'shrug' }]) {
+    const res = await fetch(`${url}/rooms`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ clock }),
+    });
+    assert.equal(res.status, 400);
+  }
+});
+
+test('a timed-out turn is played for the human and the clock moves on', async () => {
+  const { socket, seat, state } = await timedTable({ maxTimeouts: 5, onMaxTimeouts: 'autoplay' });
+  assert.ok(state.clock.turnRemainingMs <= 1000);
+  assert.deepEqual(state.clock.timeouts, [0, 0, 0, 0]);
+
+  const toast = next(socket, 'toast', m => m === 'Slow ran out of time');
+  const passed = nextState(socket, s => s.currentTurn !== seat);
+  await toast;
+  assert.equal((await passed).yourHand.length, state.yourHand.length);
+  const again = await nextState(socket, s => s.clock?.seat === seat);
+  assert.equal(again.clock.timeouts[seat], 1);
+});
+
+test('reaching maxTimeouts with the forfeit policy ends the match', async () => {
+  const { socket } = await timedTable({ maxTimeouts: 1, onMaxTimeouts: 'forfeit' });
+  const over = await nextState(socket, s => s.match?.status === 'ENDED');
+  assert.equal(over.match.winnerTeam, 1);
+});
+
+test('a timeout the server cannot play escalates instead of stalling the room', async () => {
+  const original = BucaroGame.prototype.drawFromClosed;
+  let failFor: string | null = null;
+  BucaroGame.prototype.drawFromClosed = function (this: BucaroGame, playerId: string) {
+    if (playerId === failFor) {
+      failFor = null;
+      throw new Error('simulated engine failure');
+    }
+    return original.call(this, playerId);
+  };
+  try {
+    // Bot policy: the failed timeout hands the seat to a bot at once, which then plays it
+    const bot = await timedTable({ maxTimeouts: 3, onMaxTimeouts: 'bot' });
+    failFor = bot.playerId;
+    const standIn = next(bot.socket, 'toast', m => m.startsWith('A bot is playing for Slow'));
+    const moved = nextState(bot.socket, s => s.currentTurn !== bot.seat);
+    await standIn;
+    await moved;
+
+    // Autoplay policy: nothing to escalate to, so the clock is re-armed and the next timeout plays
+    const auto = await timedTable({ maxTimeouts: 3, onMaxTimeouts: 'autoplay' });
+    failFor = auto.playerId;
+    const rearmed = nextState(auto.socket, s => s.currentTurn === auto.seat && s.clock?.timeouts[auto.seat] === 1);
+    const passed = nextState(auto.socket, s => s.currentTurn !== auto.seat);
+    assert.ok((await rearmed).clock.turnRemainingMs > 0);
+    await passed;
+  } finally {
+    BucaroGame.prototype.drawFromClosed = original;
+  }
+});
+
+test('a bot turn that throws is finished with the timeout move', async () => {
+  const original = BucaroBot.prototype.playTurn;
+  let failures = 0;
+  BucaroBot.prototype.playTurn = function (this: BucaroBot, game: BucaroGame) {
+    if (failures++ < 3) throw new Error('simulated bot failure');
+    return original.call(this, game);
+  };
+  try {
+    // Every bot turn before the human's fails once; the table still reaches the human
+    const { state, seat } = await timedTable({ turnMs: null });
+    assert.equal(state.currentTurn, seat);
+    assert.ok(failures > 0);
+  } finally {
+    BucaroBot.prototype.playTurn = original;
+  }
+});
@@ -0,0 +1,123 @@
+/*
+The lobby over the socket API: seat choice, ready checks and the host's
+controls, and every lobby event refusing a missing payload without taking the
+server down.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { actionMeta, bootServer, client, createRoom, next, nextState, sendAction, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string, seat?: number) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name, seat });
+  return { socket, ...(await joined) };
+}
+
+async function refusal(socket: Client, event: string, payload?: unknown) {
+  const refused = next(socket, 'errorMsg');
+  if (payload === undefined) socket.emit(event);
+  else socket.emit(event, payload);
+  return refused;
+}
+
+test('players pick seats; taken human seats are the host\'s to swap', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest', 3);
+  assert.equal(guest.seat, 3);
+  assert.equal(guest.teamId, 1);
+
+  assert.equal((await refusal(guest.socket, 'chooseSeat', { seat: host.seat })).code, 'SEAT_TAKEN');
+  assert.equal((await refusal(guest.socket, 'chooseSeat', { seat: 4 })).code, 'INVALID_SEAT');
+
+  const moved = next(host.socket, 'lobby', l => l.seats[2].playerId === guest.playerId);
+  guest.socket.emit('chooseSeat', { seat: 2 });
+  assert.equal((await moved).seats[2].teamId, 0);
+
+  const swapped = next(host.socket, 'lobby', l => l.seats[0].playerId === guest.playerId);
+  host.socket.emit('swapSeats', { a: 0, b: 2 });
+  assert.equal((await swapped).seats[2].playerId, host.playerId);
+
+  assert.equal((await refusal(guest.socket, 'swapSeats', { a: 0, b: 2 })).code, 'NOT_HOST');
+});
+
+test('the host starts only once four seats are filled and ready', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+  host.socket.emit('addBot', {});
+  host.socket.emit('addBot', {});
+  const full = await next(host.socket, 'lobby', l => l.seats.every((s: { playerId?: string }) => s.playerId));
+  assert.equal(full.allReady, false);
+
+  const notReady = await refusal(host.socket, 'startGame', actionMeta(host.socket));
+  assert.equal(notReady.code, 'NOT_ALL_READY');
+  assert.deepEqual(notReady.details, { notReady: [host.playerId, guest.playerId] });
+
+  host.socket.emit('setReady', { ready: true });
+  const ready = next(host.socket, 'lobby', l => l.allReady);
+  guest.socket.emit('setReady', { ready: true });
+  await ready;
+
+  assert.equal((await refusal(guest.socket, 'startGame', actionMeta(guest.socket))).code, 'NOT_HOST');
+  const started = nextState(guest.socket, s => s.status === 'ACTIVE');
+  sendAction(host.socket, 'startGame');
+  await started;
+});
+
+test('the host kicks players and hands the host role on', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+  const third = await join(roomId, 'Third');
+
+  assert.equal((await refusal(host.socket, 'kick', { playerId: host.playerId })).code, 'CANNOT_KICK_SELF');
+  assert.equal((await refusal(host.socket, 'kick', { playerId: 'nobody' })).code, 'PLAYER_NOT_FOUND');
+
+  const kicked = next(third.socket, 'kicked');
+  const gone = next(host.socket, 'lobby', l => !l.seats.some((s: { playerId?: string }) => s.playerId === third.playerId));
+  host.socket.emit('kick', { playerId: third.playerId });
+  assert.deepEqual(await kicked, { roomId });
+  await gone;
+
+  const handedOver = next(guest.socket, 'lobby', l => l.hostId === guest.playerId);
+  host.socket.emit('transferHost', { playerId: guest.playerId });
+  await handedOver;
+  assert.equal((await refusal(host.socket, 'kick', { playerId: guest.playerId })).code, 'NOT_HOST');
+});
+
+test('lobby events without a payload are refused and the server keeps serving', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  await join(roomId, 'Guest');
+
+  for (const event of ['chooseSeat', 'swapSeats', 'setReady', 'kick', 'transferHost']) {
+    for (const payload of [undefined, null]) {
+      assert.deepEqual(await refusal(host.socket, event, payload), { code: 'BAD_REQUEST', message: 'Missing payload', details: {} });
+    }
+  }
+
+  const ready = next(host.socket, 'lobby', l => l.seats[host.seat].ready);
+  host.socket.emit('setReady', { ready: true });
+  await ready;
+});
@@ -0,0 +1,118 @@
+/*
+Profiles over the API: creating and reading profiles, the leaderboard query,
+joining a room under a profile, and a restored room whose linked profile is
+not in this server's profile store (the seat is shown unrated).
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BucaroMatch } from '../src/engine/BucaroMatch';
+import { bootServer, client, createRoom, next, type Client } from './helpers/server';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bucaro-rooms-'));
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const now = Date.now();
+  fs.writeFileSync(path.join(dir, 'LOST.json'), JSON.stringify({
+    id: 'LOST',
+    status: 'LOBBY',
+    createdAt: now,
+    lastActivityAt: now,
+    hostId: 'LOST-p0',
+    match: new BucaroMatch({}).toSnapshot(),
+    players: [{ playerId: 'LOST-p0', name: 'Gone', seat: 0, teamId: 0, ready: false, sessionId: 'sid0', profileId: 'not-here' }],
+    coaching: { enabled: false, delayMs: 180_000 },
+    clock: { config: { turnMs: null, matchMs: null, maxTimeouts: 3, onMaxTimeouts: 'bot' }, banks: [], timeouts: [] },
+  }));
+  const booted = await bootServer({ ROOM_STORE_DIR: dir });
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function createProfile(name: unknown) {
+  return fetch(`${url}/profiles`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ name }) });
+}
+
+async function join(roomId: string, payload: object) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const reply = Promise.race([next(socket, 'joined'), next(socket, 'errorMsg')]);
+  socket.emit('joinRoom', { roomId, name: 'Anon', ...payload });
+  return { socket, reply: await reply };
+}
+
+test('profiles are created with a one-time token and read without it', async () => {
+  const res = await createProfile('  Ana  ');
+  assert.equal(res.status, 200);
+  const { profile, token } = await res.json();
+  assert.equal(profile.name, 'Ana');
+  assert.equal(profile.rating, 1500);
+  assert.ok(token.startsWith(`${profile.id}.`));
+
+  const read = await (await fetch(`${url}/profiles/${profile.id}`)).json();
+  assert.deepEqual(read, profile);
+  assert.equal(JSON.stringify(read).includes(token.split('.')[1]), false);
+
+  for (const name of [undefined, '   ', 'x'.repeat(100), 7]) {
+    const bad = await createProfile(name);
+    assert.equal(bad.status, 400, String(name));
+    assert.equal((await bad.json()).code, 'INVALID_BODY');
+  }
+  const missing = await fetch(`${url}/profiles/nobody`);
+  assert.equal(missing.status, 404);
+  assert.equal((await missing.json()).code, 'PROFILE_NOT_FOUND');
+});
+
+test('the leaderboard validates its query', async () => {
+  await createProfile('Fresh');
+  const all = await (await fetch(`${url}/leaderboard?minGames=0&limit=100`)).json();
+  assert.ok(all.players.some((p: { name: string }) => p.name === 'Fresh'));
+  assert.equal(all.players[0].rank, 1);
+  const played = await (await fetch(`${url}/leaderboard`)).json();
+  assert.deepEqual(played.players, []); // nobody has a scored round yet
+
+  for (const query of ['limit=0', 'limit=101', 'limit=ten', 'minGames=-1', 'minGames=1.5']) {
+    const res = await fetch(`${url}/leaderboard?${query}`);
+    assert.equal(res.status, 400, query);
+    assert.equal((await res.json()).code, 'INVALID_QUERY');
+  }
+});
+
+test('a seat joined under a profile carries its name and rating', async () => {
+  const { profile, token } = await (await createProfile('Ben')).json();
+  const roomId = await createRoom(url);
+  const ben = await join(roomId, { profileToken: token });
+  assert.equal(ben.reply.seat, 0);
+
+  const { lobby } = await (await fetch(`${url}/rooms/${roomId}`)).json();
+  assert.equal(lobby.seats[0].name, 'Ben');
+  assert.equal(lobby.seats[0].profileId, profile.id);
+  assert.equal(lobby.seats[0].rating, 1500);
+
+  assert.equal((await join(roomId, { profileToken: token })).reply.code, 'PROFILE_IN_USE');
+  assert.equal((await join(roomId, { profileToken: `${profile.id}.forged` })).reply.code, 'INVALID_PROFILE');
+});
+
+test('a restored seat whose profile is unknown here is shown unrated', async () => {
+  const res = await fetch(`${url}/rooms/LOST`);
+  assert.equal(res.status, 200);
+  const seat = (await res.json()).lobby.seats[0];
+  assert.equal(seat.name, 'Gone');
+  assert.equal(seat.profileId, 'not-here');
+  assert.equal('rating' in seat, false);
+});
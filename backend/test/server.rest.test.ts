@@ -0,0 +1,117 @@
+/*
+The REST API: request validation and its error shape, room listing and
+details, results, host-only deletion, and the served OpenAPI document staying
+in step with the house rules.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { RULE_PRESETS } from '../src/engine/rules';
+import { bootServer, client, createRoom, next, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name });
+  return { socket, ...(await joined) };
+}
+
+function post(path: string, body: string) {
+  return fetch(`${url}${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body });
+}
+
+test('health and the OpenAPI document are served', async () => {
+  const health = await (await fetch(`${url}/health`)).json();
+  assert.equal(health.status, 'ok');
+  assert.equal(typeof health.rooms, 'number');
+
+  const spec = await (await fetch(`${url}/openapi.json`)).json();
+  const override = spec.components.schemas.HouseRulesOverride;
+  assert.deepEqual(Object.keys(override.properties).sort(), Object.keys(RULE_PRESETS.classic).sort());
+  assert.equal(override.additionalProperties, false);
+});
+
+test('bad room bodies are refused with a 400 and a code', async () => {
+  const cases: Array<[string, string, string]> = [
+    ['[1, 2]', 'INVALID_BODY', 'Body must be a JSON object'],
+    ['{ "colour": "red" }', 'INVALID_BODY', 'Unknown field: colour'],
+    ['{ "maxRounds": "3" }', 'INVALID_BODY', 'Invalid value for maxRounds'],
+    ['{ "rules": [] }', 'INVALID_BODY', 'Invalid value for rules'],
+    ['{ not json', 'INVALID_BODY', 'Body is not valid JSON'],
+    ['{ "rules": { "showLength": 99 } }', 'INVALID_CONFIG', ''],
+    ['{ "clock": { "turnMs": 10 } }', 'INVALID_CLOCK', ''],
+  ];
+  for (const [body, code, message] of cases) {
+    const res = await post('/rooms', body);
+    assert.equal(res.status, 400, body);
+    const json = await res.json();
+    assert.equal(json.code, code, body);
+    assert.equal(json.error, json.message);
+    if (message) assert.equal(json.message, message);
+  }
+});
+
+test('rooms are listed, filtered and described', async () => {
+  const roomId = await createRoom(url, { preset: 'relaxed', maxRounds: 3 });
+  await join(roomId, 'Host');
+
+  const lobbies = await (await fetch(`${url}/rooms?status=LOBBY`)).json();
+  const listed = lobbies.rooms.find((r: { roomId: string }) => r.roomId === roomId);
+  assert.deepEqual({ ...listed, createdAt: 0, lastActivityAt: 0 }, {
+    roomId, status: 'LOBBY', createdAt: 0, lastActivityAt: 0, seated: 1, humans: 1, spectators: 0, round: 0, totals: [0, 0],
+  });
+  const active = await (await fetch(`${url}/rooms?status=ACTIVE`)).json();
+  assert.equal(active.rooms.some((r: { roomId: string }) => r.roomId === roomId), false);
+  const badQuery = await fetch(`${url}/rooms?status=SLEEPING`);
+  assert.equal(badQuery.status, 400);
+  assert.equal((await badQuery.json()).code, 'INVALID_QUERY');
+
+  const details = await (await fetch(`${url}/rooms/${roomId}`)).json();
+  assert.equal(details.lobby.seats[0].name, 'Host');
+  assert.equal(details.match.maxRounds, 3);
+  assert.equal(details.state, null);
+
+  const results = await (await fetch(`${url}/rooms/${roomId}/results`)).json();
+  assert.deepEqual(results, { roomId, final: false, totals: [0, 0], winnerTeam: null, forfeitTeam: null, rounds: [] });
+
+  const missing = await fetch(`${url}/rooms/NOPE`);
+  assert.equal(missing.status, 404);
+  assert.equal((await missing.json()).code, 'ROOM_NOT_FOUND');
+});
+
+test('only the host, by session token, deletes a room', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+  const del = (token?: string) => fetch(`${url}/rooms/${roomId}`, {
+    method: 'DELETE',
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+
+  assert.equal((await del()).status, 401);
+  assert.equal((await del('forged')).status, 401);
+  assert.equal((await del(guest.token)).status, 403);
+
+  const closed = next(guest.socket, 'roomClosed');
+  assert.equal((await del(host.token)).status, 204);
+  assert.deepEqual(await closed, { roomId, reason: 'deleted' });
+  assert.equal((await fetch(`${url}/rooms/${roomId}`)).status, 404);
+});
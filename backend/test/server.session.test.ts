@@ -0,0 +1,134 @@
+/*
+Rejoining over the socket API: a session token gets the same seat back within
+the grace period, and once a seat is released (or its player kicked) old tokens
+stop working. The grace period is shortened to keep the tests quick.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { bootServer, client, createRoom, next, nextState, sendAction, type Client } from './helpers/server';
+
+const GRACE_MS = 300;
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer({ RECONNECT_GRACE_MS: String(GRACE_MS) });
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string, token?: string) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name, token });
+  return { socket, ...(await joined) };
+}
+
+test('a token gets the same seat back while it is held', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+
+  const dropped = next(host.socket, 'presence', p => !p.online);
+  guest.socket.disconnect();
+  const presence = await dropped;
+  assert.equal(presence.playerId, guest.playerId);
+  assert.ok(presence.graceEndsAt > Date.now());
+
+  const back = next(host.socket, 'presence', p => p.online);
+  const again = await join(roomId, 'Guest', guest.token);
+  assert.equal(again.playerId, guest.playerId);
+  assert.equal(again.seat, guest.seat);
+  await back;
+
+  // Past the grace period the seat is still there: the reconnect cancelled the release
+  await sleep(GRACE_MS * 2);
+  const lobby = next(host.socket, 'lobby');
+  host.socket.emit('setReady', { ready: true });
+  assert.equal((await lobby).seats[guest.seat].playerId, guest.playerId);
+});
+
+test('forged and foreign tokens are refused', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const otherRoom = await createRoom(url);
+
+  for (const token of ['nonsense', `${host.token}x`]) {
+    const socket = await client(url);
+    sockets.push(socket);
+    const refused = next(socket, 'errorMsg');
+    socket.emit('joinRoom', { roomId, name: 'Thief', token });
+    assert.equal((await refused).code, 'INVALID_TOKEN');
+  }
+  const socket = await client(url);
+  sockets.push(socket);
+  const refused = next(socket, 'errorMsg');
+  socket.emit('joinRoom', { roomId: otherRoom, name: 'Host', token: host.token });
+  assert.equal((await refused).code, 'INVALID_TOKEN');
+});
+
+test('after the grace period a lobby seat is freed, the token revoked and the host passed on', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+
+  const freed = next(guest.socket, 'lobby', l => !l.seats[host.seat].playerId);
+  host.socket.disconnect();
+  assert.equal((await freed).hostId, guest.playerId);
+
+  const socket = await client(url);
+  sockets.push(socket);
+  const refused = next(socket, 'errorMsg');
+  socket.emit('joinRoom', { roomId, name: 'Host', token: host.token });
+  assert.equal((await refused).code, 'INVALID_TOKEN');
+});
+
+test('during a game a bot takes over the released seat and a connected human becomes host', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+  host.socket.emit('setReady', { ready: true });
+  guest.socket.emit('setReady', { ready: true });
+  host.socket.emit('addBot', {});
+  host.socket.emit('addBot', {});
+  await next(host.socket, 'lobby', l => l.allReady);
+  const started = nextState(guest.socket, s => s.status === 'ACTIVE');
+  sendAction(host.socket, 'startGame');
+  await started;
+
+  const takenOver = next(guest.socket, 'toast', m => m === 'Host did not come back; a bot plays their seat');
+  const rehosted = next(guest.socket, 'lobby', l => l.hostId === guest.playerId);
+  host.socket.disconnect();
+  await takenOver;
+  await rehosted;
+});
+
+test('a player kicked while offline is not released a second time', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const guest = await join(roomId, 'Guest');
+  const toasts: string[] = [];
+  host.socket.on('toast', (m: string) => toasts.push(m));
+
+  const dropped = next(host.socket, 'presence', p => !p.online);
+  guest.socket.disconnect();
+  await dropped;
+  const gone = next(host.socket, 'lobby', l => !l.seats[guest.seat].playerId);
+  host.socket.emit('kick', { playerId: guest.playerId });
+  await gone;
+
+  await sleep(GRACE_MS * 2);
+  assert.deepEqual(toasts, ['Guest was removed by the host']);
+});
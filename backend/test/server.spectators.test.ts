@@ -0,0 +1,105 @@
+/*
+Spectators over the socket API: they can watch a full table without seeing any
+hand, and the host's coaching feed only ever shows hands long after the fact.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { bootServer, client, createRoom, next, nextState, sendAction, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function connect() {
+  const socket = await client(url);
+  sockets.push(socket);
+  return socket;
+}
+
+/** A started room: a human host and three bots, waiting on the host's turn. */
+async function fullTable() {
+  const roomId = await createRoom(url);
+  const host = await connect();
+  const joined = next(host, 'joined');
+  host.emit('joinRoom', { roomId, name: 'Host' });
+  const { seat } = await joined;
+  host.emit('setReady', { ready: true });
+  for (let i = 0; i < 3; i++) host.emit('addBot', { difficulty: 'easy' });
+  await next(host, 'lobby', l => l.allReady);
+  const started = nextState(host, s => s.status === 'ACTIVE' && s.currentTurn === seat);
+  sendAction(host, 'startGame');
+  await started;
+  return { roomId, host };
+}
+
+async function spectate(roomId: string) {
+  const socket = await connect();
+  const spectating = next(socket, 'spectating');
+  const state = next(socket, 'state');
+  socket.emit('joinRoom', { roomId, name: 'Watcher', spectator: true });
+  return { socket, info: await spectating, state: await state };
+}
+
+test('a spectator watches a full table without seeing any hand', async () => {
+  const { roomId, host } = await fullTable();
+  const counted = next(host, 'lobby', l => l.spectators === 1);
+  const watcher = await spectate(roomId);
+  await counted;
+
+  assert.deepEqual(watcher.info, { roomId, status: 'ACTIVE', coaching: { enabled: false, delayMs: 180_000 } });
+  assert.equal(watcher.state.handsRevealed, false);
+  assert.equal(watcher.state.yourHand, undefined);
+  for (const p of watcher.state.players) {
+    assert.equal(typeof p.cardCount, 'number');
+    assert.equal(p.hand, undefined);
+  }
+
+  const refused = next(watcher.socket, 'errorMsg');
+  sendAction(watcher.socket, 'startGame');
+  assert.equal((await refused).code, 'NOT_HOST');
+});
+
+test('setCoaching refuses malformed payloads and delays under the minimum', async () => {
+  const { host } = await fullTable();
+  for (const payload of [undefined, null, {}, { enabled: 'yes' }, { enabled: true, delayMs: 5_000 }, { enabled: true, delayMs: 150_000.5 }]) {
+    const refused = next(host, 'errorMsg');
+    host.emit('setCoaching', payload);
+    assert.equal((await refused).code, 'INVALID_COACHING');
+  }
+
+  const on = next(host, 'lobby', l => l.coaching.enabled);
+  host.emit('setCoaching', { enabled: true, delayMs: 120_000 });
+  assert.deepEqual((await on).coaching, { enabled: true, delayMs: 120_000 });
+});
+
+test('with coaching on, hands are not sent to spectators live', async () => {
+  const { roomId, host } = await fullTable();
+  const watcher = await spectate(roomId);
+  const states: { handsRevealed: boolean }[] = [];
+  watcher.socket.on('state', s => states.push(s));
+
+  const on = next(host, 'lobby', l => l.coaching.enabled);
+  host.emit('setCoaching', { enabled: true });
+  await on;
+  // Play a turn so the table changes while the feed is on
+  const drawn = nextState(host, s => s.yourHand.length === 14);
+  sendAction(host, 'drawClosed');
+  await drawn;
+  await sleep(200);
+  assert.equal(states.some(s => s.handsRevealed), false);
+});
@@ -0,0 +1,95 @@
+/*
+Versioned state over the socket API: a player gets one full state, then patches
+that chain version to version; resync and a new connection get a full state,
+and a view rebuilt from patches matches it.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { StatePatch } from '../src/statePatch';
+import { bootServer, client, createRoom, next, nextState, views, sendAction, type Client } from './helpers/server';
+
+let url: string;
+let close: () => void;
+const sockets: Client[] = [];
+
+before(async () => {
+  const booted = await bootServer();
+  url = booted.url;
+  close = () => booted.io.close();
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+});
+
+async function join(roomId: string, name: string, token?: string) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const joined = next(socket, 'joined');
+  socket.emit('joinRoom', { roomId, name, token });
+  return { socket, ...(await joined) };
+}
+
+test('patches chain from version to version and rebuild the full state', async () => {
+  const roomId = await createRoom(url, { clock: { turnMs: null } }); // no ticking clock in the views
+  const host = await join(roomId, 'Host');
+  host.socket.emit('setReady', { ready: true });
+  for (let i = 0; i < 3; i++) host.socket.emit('addBot', { difficulty: 'easy' });
+  await next(host.socket, 'lobby', l => l.allReady);
+
+  const received: Array<{ kind: string; version: number; baseVersion?: number }> = [];
+  host.socket.on('state', (s: { version: number }) => received.push({ kind: 'state', version: s.version }));
+  host.socket.on('statePatch', (p: StatePatch) => received.push({ kind: 'patch', version: p.version, baseVersion: p.baseVersion }));
+  const started = nextState(host.socket, s => s.status === 'ACTIVE');
+  sendAction(host.socket, 'startGame');
+  await started;
+  // Bots move until it is the host's turn; then the host draws
+  await nextState(host.socket, s => s.currentTurn === host.seat);
+  const drawn = nextState(host.socket, s => s.yourHand.length === 14);
+  sendAction(host.socket, 'drawClosed');
+  await drawn;
+
+  assert.equal(received[0].kind, 'state');
+  assert.ok(received.length > 1);
+  for (let i = 1; i < received.length; i++) {
+    assert.equal(received[i].kind, 'patch');
+    assert.equal(received[i].baseVersion, received[i - 1].version);
+    assert.equal(received[i].version, received[i - 1].version + 1);
+  }
+
+  // Patches carry view changes only; the version lives on the patch itself
+  const patched = { ...views.get(host.socket), version: received[received.length - 1].version };
+  const full = next(host.socket, 'state');
+  host.socket.emit('resync');
+  assert.deepEqual(await full, patched);
+});
+
+test('a new connection for the seat starts from a full state', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  host.socket.emit('setReady', { ready: true });
+  for (let i = 0; i < 3; i++) host.socket.emit('addBot', { difficulty: 'easy' });
+  await next(host.socket, 'lobby', l => l.allReady);
+  const started = nextState(host.socket, s => s.status === 'ACTIVE');
+  sendAction(host.socket, 'startGame');
+  const { version } = await started;
+
+  const socket = await client(url);
+  sockets.push(socket);
+  const full = next(socket, 'state');
+  socket.emit('joinRoom', { roomId, name: 'Host', token: host.token });
+  assert.ok((await full).version > version);
+  assert.equal((await full).yourHand.length >= 13, true);
+});
+
+test('resync outside a game is refused', async () => {
+  const roomId = await createRoom(url);
+  const host = await join(roomId, 'Host');
+  const refused = next(host.socket, 'errorMsg');
+  host.socket.emit('resync');
+  assert.equal((await refused).code, 'GAME_NOT_STARTED');
+});
@@ -0,0 +1,79 @@
+/*
+Restarts: the server reloads stored rooms at startup, drops expired ones, and
+holds each restored human seat for the reconnect grace period like any other
+dropped seat. The stored rooms are written before the server boots.
+
+Run: npm test
+*/
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BucaroMatch } from '../src/engine/BucaroMatch';
+import { bootServer, client, next, type Client } from './helpers/server';
+
+const GRACE_MS = 1500;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bucaro-rooms-'));
+
+let url: string;
+let close: () => void;
+let signToken: (playerId: string, sid: string) => string;
+const sockets: Client[] = [];
+
+function storedLobby(id: string, createdAt = Date.now()) {
+  const human = (n: number) => ({ playerId: `${id}-p${n}`, name: `P${n}`, seat: n, teamId: n % 2, ready: false, sessionId: `sid${n}` });
+  return {
+    id,
+    status: 'LOBBY',
+    createdAt,
+    lastActivityAt: createdAt,
+    hostId: `${id}-p0`,
+    match: new BucaroMatch({}).toSnapshot(),
+    players: [human(0), human(1)],
+    coaching: { enabled: false, delayMs: 180_000 },
+    clock: { config: { turnMs: null, matchMs: null, maxTimeouts: 3, onMaxTimeouts: 'bot' }, banks: [], timeouts: [] },
+  };
+}
+
+before(async () => {
+  fs.writeFileSync(path.join(dir, 'KEEP.json'), JSON.stringify(storedLobby('KEEP')));
+  fs.writeFileSync(path.join(dir, 'OLD.json'), JSON.stringify(storedLobby('OLD', Date.now() - 48 * 60 * 60 * 1000)));
+  const booted = await bootServer({ ROOM_STORE_DIR: dir, RECONNECT_GRACE_MS: String(GRACE_MS), SESSION_SECRET: 'store-test' });
+  url = booted.url;
+  close = () => booted.io.close();
+  const { signSessionToken } = await import('../src/session');
+  signToken = (playerId, sid) => signSessionToken({ roomId: 'KEEP', playerId, sid, exp: Date.now() + 60_000 });
+});
+
+after(() => {
+  for (const s of sockets) s.disconnect();
+  close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function rejoin(playerId: string, sid: string) {
+  const socket = await client(url);
+  sockets.push(socket);
+  const reply = Promise.race([next(socket, 'joined'), next(socket, 'errorMsg')]);
+  socket.emit('joinRoom', { roomId: 'KEEP', name: 'Back', token: signToken(playerId, sid) });
+  return { socket, reply: await reply };
+}
+
+test('expired rooms are dropped at startup', () => {
+  assert.equal(fs.existsSync(path.join(dir, 'OLD.json')), false);
+  assert.equal(fs.existsSync(path.join(dir, 'KEEP.json')), true);
+});
+
+test('a restored seat is held for the grace period, then released', async () => {
+  const back = await rejoin('KEEP-p0', 'sid0');
+  assert.equal(back.reply.playerId, 'KEEP-p0');
+  assert.equal(back.reply.seat, 0);
+
+  // P1 never comes back: their seat goes and the token with it
+  const freed = await next(back.socket, 'lobby', l => !l.seats[1].playerId);
+  assert.equal(freed.hostId, 'KEEP-p0');
+  const late = await rejoin('KEEP-p1', 'sid1');
+  assert.equal(late.reply.code, 'INVALID_TOKEN');
+});
@@ -0,0 +1,30 @@
+/*
+Session tokens: signed claims that round-trip, and anything altered, expired
+or malformed is refused.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { newSessionId, signSessionToken, verifySessionToken, type SessionClaims } from '../src/session';
+
+const claims = (exp = Date.now() + 60_000): SessionClaims => ({ roomId: 'room', playerId: 'p0', sid: newSessionId(), exp });
+
+test('a signed token verifies to its claims', () => {
+  const c = claims();
+  assert.deepEqual(verifySessionToken(signSessionToken(c)), c);
+  assert.notEqual(newSessionId(), newSessionId());
+});
+
+test('altered, expired and malformed tokens are refused', () => {
+  const token = signSessionToken(claims());
+  const [, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ ...claims(), playerId: 'p1' })).toString('base64url');
+
+  assert.equal(verifySessionToken(`${forged}.${signature}`), null);
+  assert.equal(verifySessionToken(signSessionToken(claims(1000)), 1000), null);
+  for (const bad of [undefined, 42, '', 'abc', `${token}.extra`, token.slice(0, -2)]) {
+    assert.equal(verifySessionToken(bad), null);
+  }
+});
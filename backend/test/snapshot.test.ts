@@ -0,0 +1,62 @@
+/*
+Versioned snapshots: toSnapshot/fromSnapshot carry the complete game, PRNG
+included, and older versions are upgraded through registered migrations.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, SNAPSHOT_VERSION, registerSnapshotMigration } from '../src/engine/BucaroGame';
+import { PLAYERS, dealtGame, drawAndDiscard } from './helpers/games';
+
+const clock = () => 0;
+const views = (game: BucaroGame) => PLAYERS.map(id => game.getPlayerState(id));
+
+test('a restored game is the same game and plays on identically', () => {
+  const game = dealtGame({ rngSeed: 'snapshot', clock });
+  drawAndDiscard(game, 10);
+  const snapshot = game.toSnapshot();
+  assert.equal(snapshot.version, SNAPSHOT_VERSION);
+
+  const restored = BucaroGame.fromSnapshot(JSON.parse(JSON.stringify(snapshot)), { clock });
+  assert.deepEqual(restored.toSnapshot(), snapshot);
+
+  drawAndDiscard(game, 10);
+  drawAndDiscard(restored, 10);
+  assert.deepEqual(views(restored), views(game));
+  assert.deepEqual(restored.toSnapshot(), game.toSnapshot());
+});
+
+test('a snapshot is a copy, not a view of the live game', () => {
+  const game = dealtGame({ rngSeed: 'copy' });
+  const snapshot = game.toSnapshot();
+  snapshot.players[0].hand = [];
+  assert.equal(game.getPlayerState('p0').yourHand.length, 13);
+});
+
+test('snapshots without a version or from a newer build are refused', () => {
+  const snapshot = dealtGame({ rngSeed: 'versions' }).toSnapshot();
+  assert.throws(() => BucaroGame.fromSnapshot({ ...snapshot, version: undefined }), /missing version/);
+  assert.throws(() => BucaroGame.fromSnapshot(null), /missing version/);
+  assert.throws(() => BucaroGame.fromSnapshot({ ...snapshot, version: SNAPSHOT_VERSION + 1 }), /newer than supported/);
+});
+
+test('older snapshots go through the registered migrations', () => {
+  const current = dealtGame({ rngSeed: 'migrate', clock }).toSnapshot();
+  const { journal, ...legacy } = current;
+  assert.throws(() => BucaroGame.fromSnapshot({ ...legacy, version: -1 }), /No snapshot migration from version -1/);
+
+  registerSnapshotMigration(-1, s => ({ ...s, version: 0 }));
+  assert.throws(() => BucaroGame.fromSnapshot({ ...legacy, version: -1 }), /No snapshot migration from version 0/);
+
+  // Version 0 had no journal: the migration adds an empty one
+  registerSnapshotMigration(0, s => ({ ...s, version: s.version === 0 ? 1 : 0, journal: [] }));
+  const migrated = BucaroGame.fromSnapshot({ ...legacy, version: -1 }, { clock });
+  assert.deepEqual(migrated.toSnapshot(), { ...current, journal: [] });
+  assert.deepEqual(views(migrated), views(BucaroGame.fromSnapshot(current)));
+  assert.throws(() => registerSnapshotMigration(SNAPSHOT_VERSION, s => s), /current\/future version/);
+
+  registerSnapshotMigration(0, s => ({ ...s, version: 5 }));
+  assert.throws(() => BucaroGame.fromSnapshot({ ...legacy, version: 0 }), /did not produce version 1/);
+});
@@ -0,0 +1,101 @@
+/*
+Staged placements: melds placed this turn stay provisional until the discard
+or Show, can be undone or re-applied in another order, and a placement that
+fails part-way leaves the turn exactly as it was.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BucaroGame, type BucaroRuleError, type RuleErrorCode } from '../src/engine/BucaroGame';
+import { arrange, cards, dealtGame } from './helpers/games';
+
+const code = (expected: RuleErrorCode) => (e: unknown) => (e as BucaroRuleError).code === expected;
+
+/** p0 to move (drawn) with a heart run, a spade run and loose cards that extend them. */
+function table() {
+  const hand = cards('3H', '4H', '5H', '9S', '10S', 'JS', '6H', 'QS', 'KD');
+  const [h3, h4, h5, s9, s10, sJ, h6, sQ, dK] = hand;
+  const game = arrange(dealtGame({ rngSeed: 'staging' }), 'p0', hand);
+  const melds = () => game.getPlayerState('p0').teamBoards[0].melds;
+  const handIds = () => game.getPlayerState('p0').yourHand.map(c => c.id).sort();
+  return { game, melds, handIds, h3, h4, h5, s9, s10, sJ, h6, sQ, dK };
+}
+
+test('placements are staged and undone newest first', () => {
+  const t = table();
+  const startHand = t.handIds();
+  t.game.placeMelds('p0', [{ cardIds: [t.h3.id, t.h4.id, t.h5.id] }]);
+  const runId = t.melds()[0].id;
+  t.game.addCardsToMeld('p0', [{ meldId: runId, cardIds: [t.h6.id] }]);
+
+  const staging = t.game.getPublicState().staging!;
+  assert.equal(staging.playerId, 'p0');
+  assert.equal(staging.steps, 2);
+  assert.deepEqual(staging.meldIds, [runId]);
+  assert.deepEqual([...staging.cardIds].sort(), [t.h3.id, t.h4.id, t.h5.id, t.h6.id].sort());
+
+  t.game.undoPlacement('p0');
+  assert.equal(t.melds()[0].cards.length, 3);
+  assert.equal(t.melds()[0].id, runId);
+  t.game.undoPlacement('p0');
+  assert.deepEqual(t.melds(), []);
+  assert.deepEqual(t.handIds(), startHand);
+  assert.equal(t.game.getPublicState().staging, null);
+  assert.throws(() => t.game.undoPlacement('p0'), code('NOTHING_TO_UNDO'));
+  assert.deepEqual(t.game.toSnapshot().journal.slice(-2).map(r => r.type), ['undoPlacement', 'undoPlacement']);
+});
+
+test('the discard commits staged placements', () => {
+  const t = table();
+  t.game.placeMelds('p0', [{ cardIds: [t.h3.id, t.h4.id, t.h5.id] }]);
+  t.game.discard('p0', t.dK);
+  assert.equal(t.game.getPublicState().staging, null);
+  assert.equal(t.melds().length, 1);
+  assert.equal(t.game.getLegalActions('p0').undo.allowed, false);
+});
+
+test('reordering re-applies the steps, or changes nothing if the new order fails', () => {
+  const t = table();
+  t.game.placeMelds('p0', [{ cardIds: [t.h3.id, t.h4.id, t.h5.id] }]);
+  const heartRun = t.melds()[0].id;
+  t.game.addCardsToMeld('p0', [{ meldId: heartRun, cardIds: [t.h6.id] }]);
+  t.game.placeMelds('p0', [{ cardIds: [t.s9.id, t.s10.id, t.sJ.id] }]);
+  const before = t.game.toSnapshot();
+
+  // The addition cannot come before the meld it extends
+  assert.throws(() => t.game.reorderPlacements('p0', [1, 0, 2]));
+  assert.throws(() => t.game.reorderPlacements('p0', [0, 0, 1]), code('INVALID_STAGE_ORDER'));
+  assert.throws(() => t.game.reorderPlacements('p0', '012' as never), code('INVALID_STAGE_ORDER'));
+  assert.deepEqual({ ...t.game.toSnapshot(), journal: [] }, { ...before, journal: [] });
+
+  t.game.reorderPlacements('p0', [0, 2, 1]);
+  assert.deepEqual(t.melds().map(m => m.cards.length), [4, 3]);
+  t.game.undoPlacement('p0');
+  assert.deepEqual(t.melds().map(m => m.cards.length), [3, 3]);
+});
+
+test('a placement that fails part-way leaves hand, board and staging untouched', () => {
+  const t = table();
+  t.game.placeMelds('p0', [{ cardIds: [t.h3.id, t.h4.id, t.h5.id] }, { cardIds: [t.s9.id, t.s10.id, t.sJ.id] }]);
+  const [hearts, spades] = t.melds().map(m => m.id);
+  const before = t.game.toSnapshot();
+
+  // First addition is fine on its own; the second is not
+  assert.throws(() => t.game.addCardsToMeld('p0', [
+    { meldId: spades, cardIds: [t.sQ.id] },
+    { meldId: hearts, cardIds: [t.dK.id] },
+  ]), code('INVALID_ADDITION'));
+  assert.deepEqual(t.game.toSnapshot(), before);
+  assert.equal(t.game.getPublicState().staging!.steps, 1);
+});
+
+test('version 3 snapshots load with nothing staged', () => {
+  const t = table();
+  const v3 = JSON.parse(JSON.stringify(t.game.toSnapshot()));
+  v3.version = 3;
+  delete v3.turnBase;
+  delete v3.staged;
+  assert.deepEqual(BucaroGame.fromSnapshot(v3).toSnapshot(), t.game.toSnapshot());
+});
@@ -0,0 +1,55 @@
+/*
+diffState: the ops it produces are minimal for small changes, and applying them
+to the old view always gives the new one, including real player views across
+turns.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffState } from '../src/statePatch';
+import { applyPatch } from './helpers/patch';
+import { PLAYERS, dealtGame, drawAndDiscard } from './helpers/games';
+
+const json = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+test('a changed field costs one op at its path', () => {
+  const prev = { turn: 1, table: { open: ['a', 'b'], count: 2 } };
+  assert.deepEqual(diffState(prev, json(prev)), []);
+  assert.deepEqual(diffState(prev, { turn: 1, table: { open: ['a', 'c'], count: 2 } }), [
+    { op: 'set', path: ['table', 'open', 1], value: 'c' },
+  ]);
+});
+
+test('removed and undefined keys are deleted, new keys set', () => {
+  assert.deepEqual(diffState({ a: 1, b: 2, c: undefined }, { a: 1, b: undefined, d: null }), [
+    { op: 'del', path: ['b'] },
+    { op: 'set', path: ['d'], value: null },
+  ]);
+});
+
+test('an array whose length changed is replaced whole', () => {
+  assert.deepEqual(diffState({ hand: [1, 2, 3] }, { hand: [1, 2] }), [{ op: 'set', path: ['hand'], value: [1, 2] }]);
+  assert.deepEqual(diffState({ x: { y: 1 } }, { x: [1] }), [{ op: 'set', path: ['x'], value: [1] }]);
+});
+
+test('the root must be an object or array', () => {
+  assert.throws(() => diffState(1, 2), /needs two objects or arrays/);
+  assert.throws(() => diffState({}, []), /needs two objects or arrays/);
+});
+
+test('patches rebuild every player view turn after turn', () => {
+  const game = dealtGame({ rngSeed: 'patches' });
+  let before = PLAYERS.map(id => json(game.getPlayerState(id)));
+  for (let turn = 0; turn < 12; turn++) {
+    drawAndDiscard(game, 1);
+    const after = PLAYERS.map(id => json(game.getPlayerState(id)));
+    for (let i = 0; i < PLAYERS.length; i++) {
+      const ops = diffState(before[i], after[i]);
+      assert.deepEqual(applyPatch(before[i], ops), after[i]);
+      assert.ok(JSON.stringify(ops).length < JSON.stringify(after[i]).length);
+    }
+    before = after;
+  }
+});
@@ -0,0 +1,71 @@
+/*
+Room stores: records round-trip through memory and through a directory of JSON
+files, and a bad file is skipped rather than failing the whole load.
+
+Run: npm test
+*/
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileRoomStore, MemoryRoomStore, createRoomStore, type RoomStore, type StoredRoom } from '../src/store';
+
+const record = (id: string): StoredRoom => ({ id, status: 'LOBBY', createdAt: 1, lastActivityAt: 2 });
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'bucaro-store-'));
+}
+
+function roundTrip(store: RoomStore) {
+  store.save(record('A1'));
+  store.save(record('B2'));
+  store.save({ ...record('A1'), status: 'ACTIVE' });
+  assert.deepEqual(store.loadAll().sort((a, b) => a.id.localeCompare(b.id)), [{ ...record('A1'), status: 'ACTIVE' }, record('B2')]);
+  store.delete('A1');
+  store.delete('never-saved');
+  assert.deepEqual(store.loadAll(), [record('B2')]);
+}
+
+test('MemoryRoomStore keeps the latest record per room', () => {
+  roundTrip(new MemoryRoomStore());
+});
+
+test('FileRoomStore keeps one file per room and survives a new instance', () => {
+  const dir = tempDir();
+  try {
+    roundTrip(new FileRoomStore(dir));
+    assert.deepEqual(fs.readdirSync(dir), ['B2.json']);
+    assert.deepEqual(new FileRoomStore(dir).loadAll(), [record('B2')]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('FileRoomStore skips unreadable files and refuses unsafe ids', () => {
+  const dir = tempDir();
+  try {
+    const store = new FileRoomStore(dir);
+    store.save(record('OK'));
+    fs.writeFileSync(path.join(dir, 'BROKEN.json'), '{ not json');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+    assert.deepEqual(store.loadAll(), [record('OK')]);
+    assert.throws(() => store.save(record('../escape')), /Invalid room id/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('createRoomStore picks the file store when ROOM_STORE_DIR is set', () => {
+  const dir = tempDir();
+  try {
+    delete process.env.ROOM_STORE_DIR;
+    assert.ok(createRoomStore() instanceof MemoryRoomStore);
+    process.env.ROOM_STORE_DIR = dir;
+    assert.ok(createRoomStore() instanceof FileRoomStore);
+  } finally {
+    delete process.env.ROOM_STORE_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -27,54 +27,146 @@ Notes
 
 */
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { applyPatch } from './statePatch';
+import type {
+  AckResult, Card, ChatChannel, ChatMessage, ClientToServerEvents, Emote, ErrorPayload, FinalScoreSummary,
+  LeaderboardEntry, LobbySummary, MatchSummary, PlayerProfile, RatingChange, ServerToClientEvents, SpectatedPlayer, TableState,
+} from '../../backend/src/protocol';
 
 const SERVER_URL = (import.meta.env.VITE_SERVER_URL as string) || 'http://localhost:8080';
 
-type Card = { suit: string; rank: number; id: string };
+type Lobby = LobbySummary;
 
-type PlayerView = any;
+const EMOTES: Emote[] = ['gg', 'wp', 'nice', 'oops', 'thinking', 'hurry', 'thanks', 'wow'];
+
+type RoundResults = FinalScoreSummary;
+
+// A failed request, tagged with the event that caused it
+type ServerError = ErrorPayload & { action?: string };
+
+type PlayerView = TableState;
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// A profile created on this device; the token is the only way to play under it again
+type SavedProfile = { id: string; name: string; token: string };
+const PROFILE_KEY = 'bucaro.profile';
+
+function loadProfile(): SavedProfile | null {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+}
 
 export default function App() {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [connected, setConnected] = useState(false);
   const [roomId, setRoomId] = useState('');
   const [name, setName] = useState('Player');
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [seat, setSeat] = useState<number | null>(null);
   const [teamId, setTeamId] = useState<number | null>(null);
-  const [lobby, setLobby] = useState<any>(null);
+  const [lobby, setLobby] = useState<Lobby | null>(null);
   const [view, setView] = useState<PlayerView | null>(null);
   const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
+  const [error, setError] = useState<ServerError | null>(null);
+  const [spectating, setSpectating] = useState(false);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [results, setResults] = useState<RoundResults | null>(null);
+  const [match, setMatch] = useState<MatchSummary | null>(null);
+  const [ratings, setRatings] = useState<RatingChange[]>([]);
+  const [profile, setProfile] = useState<SavedProfile | null>(loadProfile);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  // Latest view and its version, kept outside React state so back-to-back patches apply in order
+  const latest = useRef<{ version: number; view: PlayerView } | null>(null);
+  const [turnEndsAt, setTurnEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Session token from `joined`; sent back to reclaim the seat after a reconnect
+  const session = useRef<{ roomId: string; name: string; token: string } | null>(null);
+  const joinName = useRef(name);
 
   useEffect(() => {
-    const s = io(SERVER_URL, { autoConnect: false });
+    const t = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(t);
+  }, []);
+
+  useEffect(() => {
+    const s: GameSocket = io(SERVER_URL, { autoConnect: false });
     setSocket(s);
     s.on('connect', () => { setConnected(true); console.log('socket connected'); });
+    s.io.on('reconnect', () => {
+      if (session.current) s.emit('joinRoom', { roomId: session.current.roomId, name: session.current.name, token: session.current.token });
+    });
     s.on('disconnect', () => { setConnected(false); });
 
-    s.on('joined', (info:any) => {
+    s.on('joined', (info) => {
+      session.current = { roomId: info.roomId, name: joinName.current, token: info.token };
       setPlayerId(info.playerId);
       setSeat(info.seat);
       setTeamId(info.teamId);
     });
 
-    s.on('lobby', (data:any) => { setLobby(data); });
-    s.on('state', (st:any) => {
-      // server sends per-player PlayerView or results
-      setView(st);
+    s.on('spectating', () => setSpectating(true));
+    s.on('lobby', (data) => { setLobby(data); });
+    s.on('chatHistory', ({ messages }) => setChat(messages));
+    s.on('chat', (msg) => setChat(prev => [...prev.slice(-99), msg]));
+    s.on('kicked', () => { session.current = null; setChat([]); setPlayerId(null); setSeat(null); setTeamId(null); setView(null); latest.current = null; alert('You were removed from the room'); });
+    s.on('roomClosed', ({ reason }) => {
+      session.current = null; setPlayerId(null); setSeat(null); setTeamId(null); setView(null); latest.current = null; setLobby(null); setSpectating(false); setChat([]);
+      alert(`The room was closed (${reason})`);
+    });
+    const showView = (version: number, v: PlayerView) => {
+      latest.current = { version, view: v };
+      setView(v);
+      setError(null);
+      if (v?.status === 'ACTIVE') setResults(null);
+      // Count down from the server's remaining time; avoids client/server clock skew
+      setTurnEndsAt(v?.clock ? Date.now() + v.clock.turnRemainingMs : null);
+    };
+    s.on('state', (st) => {
+      // Versioned states are table views; the others are round/match summaries
+      if ('version' in st) { showView(st.version, st); return; }
+      setMatch(st.match);
+      if (st.results) setResults(st.results);
+      if (st.ratings) setRatings(st.ratings);
+    });
+    s.on('statePatch', (patch) => {
+      const cur = latest.current;
+      if (!cur || cur.version !== patch.baseVersion) { s.emit('resync'); return; }
+      showView(patch.version, { ...applyPatch(cur.view, patch.ops), version: patch.version });
     });
-    s.on('errorMsg', (msg:string) => alert('Server: '+msg));
-    s.on('toast', (msg:string) => console.log('toast', msg));
+    s.on('errorMsg', (err) => {
+      if (err.code === 'INVALID_TOKEN') { session.current = null; setPlayerId(null); setSeat(null); setTeamId(null); }
+      setError(err);
+    });
+    s.on('toast', (msg) => console.log('toast', msg));
 
     return () => { s.close(); };
   }, []);
 
-  const connectAndJoin = (room:string) => {
+  // Ack callback for a request: a rejection is shown with the event that caused it
+  const onAck = (action: keyof ClientToServerEvents) => (res: AckResult<unknown>) => {
+    if (!res.ok) setError({ ...res.error, action });
+  };
+
+  // Table actions carry a fresh id, so a resend after a reconnect is not applied twice, and the
+  // version they were made against, so a second click on an outdated table is refused
+  const actionMeta = () => ({
+    actionId: newActionId(),
+    expectedVersion: latest.current?.version ?? lobby?.version ?? 0,
+  });
+
+  const connectAndJoin = (room:string, spectator = false) => {
     if (!socket) return;
     socket.connect();
-    socket.emit('joinRoom', { roomId: room, name, playerId: playerId ?? undefined });
+    const token = !spectator && session.current?.roomId === room ? session.current.token : undefined;
+    joinName.current = name;
+    const profileToken = spectator ? undefined : profile?.token;
+    socket.emit('joinRoom', { roomId: room, name, token, profileToken, spectator }, onAck('joinRoom'));
     setRoomId(room);
   };
 
@@ -84,11 +176,44 @@ export default function App() {
     connectAndJoin(j.roomId);
   };
 
-  const joinRoom = () => connectAndJoin(roomId);
+  const createProfile = async () => {
+    const res = await fetch(SERVER_URL + '/profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    const j = await res.json();
+    if (!res.ok) { setError({ ...j, action: 'createProfile' }); return; }
+    const p: PlayerProfile = j.profile;
+    const saved = { id: p.id, name: p.name, token: j.token };
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(saved));
+    setProfile(saved);
+  };
+
+  const forgetProfile = () => {
+    localStorage.removeItem(PROFILE_KEY);
+    setProfile(null);
+  };
+
+  const loadLeaderboard = async () => {
+    const res = await fetch(SERVER_URL + '/leaderboard');
+    if (res.ok) setLeaderboard((await res.json()).players);
+  };
 
-  const startGame = () => socket?.emit('startGame');
-  const drawClosed = () => socket?.emit('drawClosed');
-  const drawOpen = () => socket?.emit('drawOpen');
+  const joinRoom = () => connectAndJoin(roomId);
+  const watchRoom = () => connectAndJoin(roomId, true);
+  const setCoaching = (enabled: boolean) => socket?.emit('setCoaching', { enabled }, onAck('setCoaching'));
+  const isHost = !!playerId && lobby?.hostId === playerId;
+  const myReady = !!lobby?.seats.find(x => x.playerId === playerId)?.ready;
+
+  const startGame = () => socket?.emit('startGame', actionMeta(), onAck('startGame'));
+  const nextRound = () => socket?.emit('nextRound', actionMeta(), onAck('nextRound'));
+  const addBot = (difficulty: 'easy' | 'strong') => socket?.emit('addBot', { difficulty }, onAck('addBot'));
+  const drawClosed = () => socket?.emit('drawClosed', actionMeta(), onAck('drawClosed'));
+  const drawOpen = () => socket?.emit('drawOpen', actionMeta(), onAck('drawOpen'));
+  const returnOpen = () => socket?.emit('returnOpen', actionMeta(), onAck('returnOpen'));
+  const undoPlacement = () => socket?.emit('undoPlacement', actionMeta(), onAck('undoPlacement'));
+  const resumeSeat = () => socket?.emit('resumeSeat', actionMeta(), onAck('resumeSeat'));
 
   const toggleSelectCard = (id:string) => {
     setSelectedCardIds(s => s.includes(id) ? s.filter(x=>x!==id) : [...s, id]);
@@ -97,13 +222,13 @@ export default function App() {
   const placeMelds = () => {
     if (!selectedCardIds.length) return alert('select card ids for a single meld (simplified)');
     const melds = [{ cardIds: selectedCardIds }];
-    socket?.emit('placeMelds', { melds });
+    socket?.emit('placeMelds', { melds, ...actionMeta() }, onAck('placeMelds'));
     setSelectedCardIds([]);
   };
 
   const discard = () => {
     if (selectedCardIds.length !== 1) return alert('Select exactly 1 card to discard');
-    socket?.emit('discard', { cardId: selectedCardIds[0] });
+    socket?.emit('discard', { cardId: selectedCardIds[0], ...actionMeta() }, onAck('discard'));
     setSelectedCardIds([]);
   };
 
@@ -111,13 +236,16 @@ export default function App() {
     // Expect user to select multiple meld payloads by grouping; simplified: send one meld composed of selected
     if (selectedCardIds.length < 7) return alert('Select the cards you are placing in show (must include a 7-card pure)');
     const payload = { melds: [{ cardIds: selectedCardIds }] };
-    socket?.emit('show', payload);
+    socket?.emit('show', { ...payload, ...actionMeta() }, onAck('show'));
     setSelectedCardIds([]);
   };
 
+  const hand = view && 'yourHand' in view ? view.yourHand : [];
+  const watched = view && 'players' in view ? view : null;
+
   const seatName = useMemo(() => {
     if (!lobby) return 'No room';
-    const s = lobby.seats.map((x:any)=> x.name ?? 'empty').join(' | ');
+    const s = lobby.seats.map(x => x.name ?? 'empty').join(' | ');
     return s;
   }, [lobby]);
 
@@ -129,17 +257,37 @@ export default function App() {
           <div className="text-sm text-slate-600">Server: {SERVER_URL} • Socket: {connected ? 'connected' : 'disconnected'}</div>
         </header>
 
-        {!playerId ? (
+        {error && (
+          <div className="mb-4 p-3 rounded border border-red-300 bg-red-50 text-sm text-red-700 flex justify-between">
+            <span>{error.action && <>{error.action} failed — </>}<strong>{error.code}</strong>: {error.message}</span>
+            <button onClick={() => setError(null)}>✕</button>
+          </div>
+        )}
+
+        {!playerId && !spectating ? (
           <div className="grid grid-cols-2 gap-6">
             <div className="p-4 bg-white rounded shadow">
               <h2 className="font-semibold mb-2">Create / Join Room</h2>
-              <label className="block text-xs text-slate-500">Your name</label>
-              <input className="w-full border p-2 rounded mb-2" value={name} onChange={e=>setName(e.target.value)} />
+              {profile ? (
+                <div className="mb-2 text-sm">
+                  Playing rated as <strong>{profile.name}</strong>{' '}
+                  <button className="btn text-xs" onClick={forgetProfile}>Forget profile</button>
+                </div>
+              ) : (
+                <>
+                  <label className="block text-xs text-slate-500">Your name</label>
+                  <div className="flex gap-2 mb-2">
+                    <input className="flex-1 border p-2 rounded" value={name} onChange={e=>setName(e.target.value)} />
+                    <button className="btn" onClick={createProfile}>Create profile</button>
+                  </div>
+                </>
+              )}
 
               <div className="flex gap-2">
                 <button className="btn" onClick={createRoom}>Create room</button>
                 <input className="border p-2 rounded" placeholder="ROOM ID" value={roomId} onChange={e=>setRoomId(e.target.value)} />
                 <button className="btn" onClick={joinRoom}>Join</button>
+                <button className="btn" onClick={watchRoom}>Watch</button>
               </div>
 
               <div className="mt-4 text-sm text-slate-600">Seats: {seatName}</div>
@@ -148,11 +296,20 @@ export default function App() {
             <div className="p-4 bg-white rounded shadow">
               <h2 className="font-semibold mb-2">How to play (quick)</h2>
               <ol className="list-decimal pl-4 text-sm text-slate-700">
-                <li>Create/join a room (4 players).</li>
+                <li>Create/join a room (4 players; the host can fill empty seats with bots).</li>
                 <li>Start game when all joined.</li>
                 <li>On your turn, draw (closed/open), place melds by selecting cards and clicking "Place Melds", then discard 1 selected card.</li>
                 <li>Use "Show" to show a 7-card pure (select the cards and click Show).</li>
               </ol>
+
+              <h2 className="font-semibold mt-4 mb-2">Leaderboard <button className="btn text-xs" onClick={loadLeaderboard}>Refresh</button></h2>
+              <ol className="text-sm">
+                {leaderboard.map(e => (
+                  <li key={e.id}>
+                    {e.rank}. {e.name} — {e.rating} ({e.stats.wins}/{e.stats.games} won, {e.stats.shows} shows, avg {e.averageScore})
+                  </li>
+                ))}
+              </ol>
             </div>
           </div>
         ) : (
@@ -160,7 +317,7 @@ export default function App() {
             <div className="col-span-2 p-4 bg-white rounded shadow">
               <div className="flex items-center justify-between mb-3">
                 <div>Room <strong>{roomId}</strong></div>
-                <div>Seat: {seat} • Team: {teamId}</div>
+                <div>{spectating ? 'Spectating' : `Seat: ${seat} • Team: ${teamId}`}</div>
               </div>
 
               <div className="flex gap-4">
@@ -172,13 +329,25 @@ export default function App() {
                   <div className="p-3 bg-slate-50 rounded">
                     <div className="mb-2">Actions</div>
                     <div className="flex flex-col gap-2">
-                      <button className="btn" onClick={startGame}>Start Game</button>
+                      <button className="btn" onClick={() => addBot('easy')}>Add Easy Bot</button>
+                      <button className="btn" onClick={() => addBot('strong')}>Add Strong Bot</button>
+                      <button className="btn" onClick={startGame}>Start Game (host, all ready)</button>
+                      <button className="btn" onClick={nextRound}>Next Round</button>
                       <button className="btn" onClick={drawClosed}>Draw Closed</button>
                       <button className="btn" onClick={drawOpen}>Draw Open</button>
+                      <button className="btn" onClick={returnOpen}>Return Open Card</button>
                       <button className="btn" onClick={placeMelds}>Place Melds (selected)</button>
+                      <button className="btn" onClick={undoPlacement}>Undo Placement</button>
                       <button className="btn" onClick={discard}>Discard (select 1)</button>
                       <button className="btn" onClick={doShow}>Show (selected)</button>
-                      <button className="btn" onClick={() => socket?.emit('getState')}>Refresh</button>
+                      <button className="btn" onClick={resumeSeat}>Resume Seat (after timeouts)</button>
+                      <button className="btn" onClick={() => setCoaching(!lobby?.coaching?.enabled)}>
+                        {lobby?.coaching?.enabled ? 'Stop Coaching Feed' : 'Start Coaching Feed'} (host)
+                      </button>
+                      <button className="btn" onClick={() => socket?.emit('setSpectatorChat', { allowed: !lobby?.spectatorChat }, onAck('setSpectatorChat'))}>
+                        {lobby?.spectatorChat ? 'Mute Spectators' : 'Let Spectators Chat'} (host)
+                      </button>
+                      <button className="btn" onClick={() => socket?.emit('getState', onAck('getState'))}>Refresh</button>
                     </div>
 
                     <div className="mt-4 text-sm">
@@ -186,6 +355,13 @@ export default function App() {
                       <div>Open Count: {view?.openCount ?? 0}</div>
                       <div>Closed Count: {view?.closedCount ?? 0}</div>
                       <div>Current Turn: {view?.currentTurn}</div>
+                      {turnEndsAt !== null && (
+                        <div>Turn clock: {Math.max(0, Math.ceil((turnEndsAt - now) / 1000))}s</div>
+                      )}
+                      {view?.pendingPickup && <div>Must meld: {cardLabel(view.pendingPickup)}</div>}
+                      {match && (
+                        <div>Match: {match.totals.join(' – ')} after round {match.round} ({match.status})</div>
+                      )}
                     </div>
                   </div>
 
@@ -202,16 +378,68 @@ export default function App() {
             <div className="p-4 bg-white rounded shadow">
               <h3 className="font-semibold mb-2">Your Hand</h3>
               <div className="flex flex-wrap gap-2">
-                {(view?.yourHand ?? []).map((c:Card)=> (
-                  <CardView key={c.id} card={c} selected={selectedCardIds.includes(c.id)} onClick={()=>toggleSelectCard(c.id)} />
+                {hand.map(c => (
+                  <CardView key={c.id} card={c} selected={selectedCardIds.includes(c.id)} error={!!error?.details.cardIds?.includes(c.id)} onClick={()=>toggleSelectCard(c.id)} />
                 ))}
               </div>
 
+              {watched && (
+                <div className="mt-4 text-xs">
+                  <h4 className="font-semibold text-sm">Players{watched.handsRevealed ? ' (delayed hands)' : ''}</h4>
+                  {watched.players.map((p: SpectatedPlayer) => (
+                    <div key={p.id}>
+                      {p.name} (team {p.teamId}, {p.cardCount}){p.hand ? `: ${p.hand.map(cardLabel).join(' ')}` : ''}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {lobby?.status === 'LOBBY' && (
+                <div className="mt-4 text-xs">
+                  <h4 className="font-semibold text-sm">Lobby {lobby.allReady ? '(all ready)' : ''}</h4>
+                  {lobby.seats.map(x => (
+                    <div key={x.seat} className="flex gap-2 items-center">
+                      <span>Seat {x.seat} (team {x.teamId}): {x.name ?? 'empty'}{x.rating !== undefined ? ` (${x.rating})` : ''}{x.playerId === lobby.hostId ? ' ★' : ''}{x.ready ? ' ✓' : ''}</span>
+                      {!spectating && x.playerId !== playerId && (!x.playerId || x.bot) && (
+                        <button className="btn" onClick={() => socket?.emit('chooseSeat', { seat: x.seat }, onAck('chooseSeat'))}>Sit</button>
+                      )}
+                      {isHost && x.playerId && x.playerId !== playerId && !x.bot && (
+                        <>
+                          <button className="btn" onClick={() => socket?.emit('kick', { playerId: x.playerId! }, onAck('kick'))}>Kick</button>
+                          <button className="btn" onClick={() => socket?.emit('transferHost', { playerId: x.playerId! }, onAck('transferHost'))}>Make host</button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {!spectating && (
+                    <button className="btn mt-1" onClick={() => socket?.emit('setReady', { ready: !myReady }, onAck('setReady'))}>{myReady ? 'Not ready' : 'Ready'}</button>
+                  )}
+                </div>
+              )}
+
               <div className="mt-4">
+                {results && <ResultsView results={results} />}
+                {results && ratings.map(c => (
+                  <div key={c.profileId} className="text-xs">
+                    {lobby?.seats.find(x => x.playerId === c.playerId)?.name}: rating {c.before} → {c.after}
+                  </div>
+                ))}
                 <h4 className="font-semibold">Team Boards</h4>
+                {view?.staging && (
+                  <div className="text-xs text-amber-700 mt-1">
+                    Provisional (team {view.staging.teamId}, until discard): {view.staging.meldIds.join(', ')}
+                  </div>
+                )}
                 <pre className="text-xs bg-slate-50 p-2 rounded mt-2">{JSON.stringify(view?.teamBoards, null, 2)}</pre>
               </div>
             </div>
+
+            <ChatPanel
+              messages={chat}
+              canTeamChat={!spectating}
+              onSend={(channel, text) => socket?.emit('chat', { channel, text }, onAck('chat'))}
+              onEmote={(channel, emote) => socket?.emit('emote', { channel, emote }, onAck('emote'))}
+            />
           </div>
         )}
 
@@ -221,8 +449,49 @@ export default function App() {
   );
 }
 
+function ChatPanel({ messages, canTeamChat, onSend, onEmote }: {
+  messages: ChatMessage[];
+  canTeamChat: boolean;
+  onSend: (channel: ChatChannel, text: string) => void;
+  onEmote: (channel: ChatChannel, emote: Emote) => void;
+}) {
+  const [channel, setChannel] = useState<ChatChannel>('room');
+  const [text, setText] = useState('');
+  const send = () => {
+    if (!text.trim()) return;
+    onSend(channel, text);
+    setText('');
+  };
+  return (
+    <div className="p-4 bg-white rounded shadow flex flex-col">
+      <h3 className="font-semibold mb-2">Chat</h3>
+      <div className="flex-1 overflow-y-auto text-xs space-y-1 mb-2 max-h-96">
+        {messages.map(m => (
+          <div key={m.id} className={m.channel === 'team' ? 'text-emerald-700' : ''}>
+            {m.channel === 'team' ? '[team] ' : ''}<strong>{m.from.name}</strong>{m.from.spectator ? ' (spectator)' : ''}:{' '}
+            {m.kind === 'emote' ? <em>*{m.text}*</em> : m.text}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mb-1">
+        <select className="border rounded text-xs" value={channel} onChange={e => setChannel(e.target.value as ChatChannel)}>
+          <option value="room">Room</option>
+          {canTeamChat && <option value="team">Team</option>}
+        </select>
+        <input className="flex-1 border p-1 rounded text-xs" maxLength={300} value={text}
+          onChange={e => setText(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') send(); }} />
+        <button className="btn" onClick={send}>Send</button>
+      </div>
+      <div className="flex gap-1 flex-wrap">
+        {EMOTES.map(e => <button key={e} className="btn text-xs" onClick={() => onEmote(channel, e)}>{e}</button>)}
+      </div>
+    </div>
+  );
+}
+
 function TableView({ view, selectedCardIds, onCardClick } : { view: PlayerView | null; selectedCardIds: string[]; onCardClick: (id:string)=>void }) {
   if (!view) return <div className="p-6">No state yet</div>;
+  if (!('yourHand' in view)) return <div className="p-6">Spectating</div>;
   return (
     <div className="bg-white rounded p-3 shadow">
       <div className="mb-2 text-sm">Table</div>
@@ -230,7 +499,7 @@ function TableView({ view, selectedCardIds, onCardClick } : { view: PlayerView |
         <div className="col-span-2">
           <div className="mb-2">Open Pile Top: {view.openTop ? cardLabel(view.openTop) : '—'}</div>
           <div className="flex gap-2 flex-wrap">
-            {(view.yourHand ?? []).slice(0,6).map((c:Card)=> (
+            {view.yourHand.slice(0,6).map(c => (
               <MiniCard key={c.id} card={c} selected={selectedCardIds.includes(c.id)} onClick={()=>onCardClick(c.id)} />
             ))}
           </div>
@@ -238,23 +507,60 @@ function TableView({ view, selectedCardIds, onCardClick } : { view: PlayerView |
         <div>
           <div>Partner: {view.partner?.name} ({view.partner?.cardCount})</div>
           <div>Opponents:</div>
-          <div>{view.opponents?.map((o:any)=> <div key={o.id}>{o.name} ({o.cardCount})</div>)}</div>
+          <div>{view.opponents.map(o => <div key={o.id}>{o.name} ({o.cardCount})</div>)}</div>
         </div>
       </div>
     </div>
   );
 }
 
+// Itemized round score (FinalScoreSummary): every meld, leftover hands and transferred cards
+function ResultsView({ results }: { results: RoundResults }) {
+  return (
+    <div className="mb-4 text-xs">
+      <h4 className="font-semibold text-sm">Round result ({results.endReason})</h4>
+      {results.details.map(d => (
+        <div key={d.teamId} className="mt-2">
+          <div className="font-medium">
+            Team {d.teamId}: {results.teamScores[d.teamId]} = melds {d.meldPoints} + cards {d.cardPoints} + penalty {d.penalty} + transfer {d.inHandGainsFromOpp}
+          </div>
+          <ul className="pl-2">
+            {d.melds.map(m => (
+              <li key={m.meldId}>
+                {m.type} by {m.placedBy ?? '?'}: {m.meldPoints} + {m.cards.map(c => `${cardLabel(c.card)}=${c.value}`).join(' ')}
+              </li>
+            ))}
+            {d.hands.map(h => (
+              <li key={h.playerId}>
+                Hand {h.playerId.slice(0, 6)}: {h.cards.map(c => cardLabel(c.card)).join(' ') || '—'} ({h.value}){h.transferredTo !== null ? ` → team ${h.transferredTo}` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+let actionCount = 0;
+const actionPrefix = Math.random().toString(36).slice(2, 10);
+
+/** Unique per page load; crypto.randomUUID is not available on plain-http hosts. */
+function newActionId() {
+  actionCount += 1;
+  return `${actionPrefix}-${actionCount}`;
+}
+
 function cardLabel(c:Card) {
   if (!c) return '—';
-  const ranks:any = {1:'A',11:'J',12:'Q',13:'K'};
+  const ranks: Record<number, string> = {1:'A',11:'J',12:'Q',13:'K'};
   const r = ranks[c.rank] ?? c.rank;
   return `${r}${c.suit}`;
 }
 
-function CardView({ card, selected, onClick }: { card:Card; selected:boolean; onClick:()=>void }) {
+function CardView({ card, selected, error, onClick }: { card:Card; selected:boolean; error:boolean; onClick:()=>void }) {
   return (
-    <div onClick={onClick} className={`cursor-pointer p-2 rounded border ${selected ? 'bg-blue-100 border-blue-400' : 'bg-white border-slate-200'}`}>
+    <div onClick={onClick} className={`cursor-pointer p-2 rounded border ${selected ? 'bg-blue-100 border-blue-400' : 'bg-white border-slate-200'} ${error ? 'ring-2 ring-red-400' : ''}`}>
       <div className="text-sm font-medium">{cardLabel(card)}</div>
       <div className="text-xs text-slate-500">{card.id.slice(-6)}</div>
     </div>
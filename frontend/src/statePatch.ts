@@ -0,0 +1,17 @@
+// Applies the server's statePatch ops (see backend/src/statePatch.ts) to a copy of the view.
+
+import type { PatchOp } from '../../backend/src/protocol';
+
+type Json = Record<string | number, unknown>;
+
+export function applyPatch<T extends object>(view: T, ops: PatchOp[]): T {
+  const next = structuredClone(view) as Json;
+  for (const op of ops) {
+    let target = next;
+    for (const key of op.path.slice(0, -1)) target = target[key] as Json;
+    const last = op.path[op.path.length - 1];
+    if (op.op === 'set') target[last] = op.value;
+    else delete target[last];
+  }
+  return next as T;
+}